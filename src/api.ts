@@ -0,0 +1,336 @@
+/**
+ * Resamania API Client - Lists slots and books them through the JSON API
+ * Reuses the OAuth token of the browser session, avoiding page reloads and DOM scraping
+ */
+
+import type { SlotInfo } from './booker.js'
+import type { Reservation } from './reservations.js'
+import { formatSlotDate, formatSlotTime, dayOfWeek } from './utils.js'
+
+export interface ApiSettings {
+  apiUrl: string;
+  clubId: string;  // IRI, e.g. "/fitnesstraining/clubs/528"
+  userAgent?: string;
+}
+
+/**
+ * Class event as returned by the Resamania (API Platform / Hydra) API
+ */
+interface ApiClassEvent {
+  '@id': string;
+  name?: string;
+  activity?: string | { name?: string };
+  coach?: string | { firstName?: string; lastName?: string; name?: string } | null;
+  room?: string | { name?: string } | null;
+  startedAt: string;
+  endedAt?: string;
+  attendingLimit?: number;
+  attendingCount?: number;
+  attendee?: string | null;  // IRI of the member's own attendee record, if booked or on the waiting list
+  waitingList?: boolean;     // Whether the member is on the waiting list
+  waitingListPosition?: number;
+  bookable?: boolean;
+}
+
+/**
+ * Attendee record: the member's booking (or waiting list entry) of a class event
+ */
+interface ApiAttendee {
+  '@id': string;
+  classEvent: string | ApiClassEvent;
+  waitingList?: boolean;
+}
+
+interface HydraCollection<T> {
+  'hydra:member': T[];
+  'hydra:view'?: {
+    'hydra:next'?: string;
+  };
+}
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+export class ResamaniaApiError extends Error {
+  constructor(message: string, public readonly status: number | null, public readonly body?: string) {
+    super(message);
+    this.name = 'ResamaniaApiError';
+  }
+
+  /**
+   * True when the API itself is unusable (auth, routing, server or network issue),
+   * as opposed to a booking being refused
+   */
+  get isFatal(): boolean {
+    return this.status === null || this.status === 401 || this.status === 403 || this.status === 404 || this.status >= 500;
+  }
+
+  /**
+   * Human-readable error from the response body (Hydra description, detail or violations), else the body itself
+   */
+  get serverMessage(): string {
+    if (!this.body) return this.message;
+    try {
+      const error = JSON.parse(this.body);
+      const violations = Array.isArray(error.violations)
+        ? error.violations.map((violation: { message?: string }) => violation.message).filter(Boolean).join('; ')
+        : '';
+      return error['hydra:description'] || error.detail || error.message || violations || this.body;
+    } catch {
+      return this.body;
+    }
+  }
+}
+
+export class ResamaniaApiClient {
+  private apiUrl: string;
+  private clubId: string;
+  private brand: string;
+  private token: string;
+  private userAgent?: string;
+
+  constructor(settings: ApiSettings, token: string) {
+    this.apiUrl = settings.apiUrl.replace(/\/$/, '');
+    this.clubId = settings.clubId;
+    this.brand = brandFromClubId(settings.clubId);
+    this.token = token;
+    this.userAgent = settings.userAgent;
+  }
+
+  /**
+   * List a club's class events between two dates as SlotInfo
+   * @param clubId - Club IRI (default: the client's club)
+   */
+  async listSlots(from: Date, to: Date, clubId: string = this.clubId): Promise<SlotInfo[]> {
+    const params = new URLSearchParams({
+      club: clubId,
+      'startedAt[after]': from.toISOString(),
+      'startedAt[before]': to.toISOString(),
+      itemsPerPage: '100',
+    });
+
+    const events: ApiClassEvent[] = [];
+    let path: string | undefined = `/${this.brand}/class_events?${params}`;
+
+    while (path) {
+      const page: HydraCollection<ApiClassEvent> = await this.request('GET', path);
+      events.push(...page['hydra:member']);
+      path = page['hydra:view']?.['hydra:next'];
+    }
+
+    return events.map(event => toSlotInfo(event));
+  }
+
+  /**
+   * Read one class event as SlotInfo, e.g. to check its status after booking
+   * @param eventId - Class event IRI
+   */
+  async getSlot(eventId: string): Promise<SlotInfo> {
+    const event = await this.request<ApiClassEvent>('GET', eventId);
+    return toSlotInfo(event);
+  }
+
+  /**
+   * List the member's bookings of class events starting after a date
+   */
+  async listReservations(from: Date): Promise<Reservation[]> {
+    const params = new URLSearchParams({
+      'classEvent.startedAt[after]': from.toISOString(),
+      itemsPerPage: '100',
+    });
+
+    const reservations: Reservation[] = [];
+    let path: string | undefined = `/${this.brand}/attendees?${params}`;
+
+    while (path) {
+      const page: HydraCollection<ApiAttendee> = await this.request('GET', path);
+      for (const attendee of page['hydra:member']) {
+        const event = typeof attendee.classEvent === 'string'
+          ? await this.request<ApiClassEvent>('GET', attendee.classEvent)
+          : attendee.classEvent;
+        reservations.push(toReservation(attendee, event));
+      }
+      path = page['hydra:view']?.['hydra:next'];
+    }
+
+    return reservations;
+  }
+
+  /**
+   * Book a class event
+   * @returns IRI of the created attendee record
+   */
+  async bookSlot(slot: SlotInfo): Promise<string> {
+    if (!slot.api_id) {
+      throw new ResamaniaApiError(`Slot ${slot.activity_name} has no API id`, null);
+    }
+    const attendee = await this.request<{ '@id': string }>('POST', `/${this.brand}/attendees`, {
+      classEvent: slot.api_id,
+    });
+    return attendee['@id'];
+  }
+
+  /**
+   * Join the waiting list of a full class event
+   * @returns IRI of the created attendee record
+   */
+  async joinWaitingList(slot: SlotInfo): Promise<string> {
+    if (!slot.api_id) {
+      throw new ResamaniaApiError(`Slot ${slot.activity_name} has no API id`, null);
+    }
+    const attendee = await this.request<{ '@id': string; waitingListPosition?: number }>('POST', `/${this.brand}/attendees`, {
+      classEvent: slot.api_id,
+      waitingList: true,
+    });
+    slot.waitlist_position = attendee.waitingListPosition;
+    return attendee['@id'];
+  }
+
+  /**
+   * Cancel a booking by its attendee IRI
+   */
+  async cancelBooking(attendeeId: string): Promise<void> {
+    await this.request<void>('DELETE', attendeeId);
+  }
+
+  /**
+   * Send a request and parse its JSON response as T
+   * Requests not answered within REQUEST_TIMEOUT_MS fail like network errors; an empty body
+   * (e.g. the 204 of a DELETE) resolves to undefined, so T is void for those
+   */
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const url = path.startsWith('http') ? path : `${this.apiUrl}${path}`;
+    const headers: Record<string, string> = {
+      Accept: 'application/ld+json',
+      Authorization: `Bearer ${this.token}`,
+    };
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (this.userAgent) {
+      headers['User-Agent'] = this.userAgent;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers,
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new ResamaniaApiError(`${method} ${path} failed: ${error}`, null);
+    }
+
+    const text = await response.text();
+    if (!response.ok) {
+      throw new ResamaniaApiError(`${method} ${path} returned ${response.status}`, response.status, text);
+    }
+
+    if (!text) {
+      if (method !== 'DELETE') {
+        throw new ResamaniaApiError(`${method} ${path} returned an empty body`, response.status);
+      }
+      return undefined as T;
+    }
+    return JSON.parse(text) as T;
+  }
+}
+
+/**
+ * Extract the brand slug from a club IRI ("/fitnesstraining/clubs/528" -> "fitnesstraining")
+ */
+function brandFromClubId(clubId: string): string {
+  const brand = clubId.split('/').filter(Boolean)[0];
+  if (!brand) {
+    throw new Error(`Invalid club id: ${clubId}`);
+  }
+  return brand;
+}
+
+function activityNameOf(event: ApiClassEvent): string {
+  return typeof event.activity === 'object'
+    ? event.activity?.name ?? event.name ?? 'Unknown'
+    : event.name ?? event.activity ?? 'Unknown';
+}
+
+/**
+ * Room name of a class event (undefined when the API only gives the room's IRI)
+ */
+function roomNameOf(event: ApiClassEvent): string | undefined {
+  if (!event.room) return undefined;
+  if (typeof event.room === 'string') {
+    return event.room.startsWith('/') ? undefined : event.room;
+  }
+  return event.room.name;
+}
+
+/**
+ * Coach name of a class event (undefined when the API only gives the coach's IRI)
+ */
+function coachNameOf(event: ApiClassEvent): string | undefined {
+  if (!event.coach) return undefined;
+  if (typeof event.coach === 'string') {
+    return event.coach.startsWith('/') ? undefined : event.coach;
+  }
+  const fullName = [event.coach.firstName, event.coach.lastName].filter(Boolean).join(' ');
+  return event.coach.name ?? (fullName || undefined);
+}
+
+function toReservation(attendee: ApiAttendee, event: ApiClassEvent): Reservation {
+  const at = new Date(event.startedAt);
+  const durationMinutes = event.endedAt
+    ? Math.round((new Date(event.endedAt).getTime() - at.getTime()) / 60000)
+    : undefined;
+
+  return {
+    id: attendee['@id'],
+    activity_name: activityNameOf(event),
+    date: formatSlotDate(at),
+    time: formatSlotTime(at),
+    at,
+    day_of_week: dayOfWeek(at),
+    duration_minutes: durationMinutes,
+    status: attendee.waitingList ? 'waitlisted' : 'booked',
+    source: 'api',
+  };
+}
+
+function toSlotInfo(event: ApiClassEvent): SlotInfo {
+  const at = new Date(event.startedAt);
+  const activityName = activityNameOf(event);
+
+  const remaining = event.attendingLimit !== undefined && event.attendingCount !== undefined
+    ? event.attendingLimit - event.attendingCount
+    : null;
+
+  // A waiting list entry also has an attendee record: check the waiting list first
+  let status = 'Available';
+  if (event.waitingList) {
+    status = 'On waiting list';
+  } else if (event.attendee) {
+    status = 'Signed up';
+  } else if (remaining !== null && remaining <= 0) {
+    status = 'Full';
+  } else if (remaining !== null) {
+    status = `${remaining} remaining places`;
+  }
+
+  return {
+    activity_name: activityName,
+    date: formatSlotDate(at),
+    time: formatSlotTime(at),
+    at,
+    day_of_week: dayOfWeek(at),
+    status,
+    is_available: !event.waitingList && !event.attendee && (event.bookable ?? true) && (remaining === null || remaining > 0),
+    card_element: null,
+    api_id: event['@id'],
+    attendee_id: event.attendee ?? undefined,
+    waitlist_position: event.waitingList ? event.waitingListPosition : undefined,
+    coach: coachNameOf(event),
+    room: roomNameOf(event),
+    capacity: event.attendingLimit,
+    remaining_places: remaining !== null ? Math.max(remaining, 0) : undefined,
+  };
+}
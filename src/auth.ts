@@ -4,101 +4,132 @@
  */
 
 import { type BrowserContext, type Page } from 'playwright';
-import { readFileSync, existsSync } from 'fs';
-import { dirname, join } from 'path'
+import { readFileSync, existsSync, mkdirSync, writeFileSync, renameSync, unlinkSync } from 'fs';
+import { dirname } from 'path'
 import * as dotenv from 'dotenv';
-import { fileURLToPath } from 'url'
+import type { Config } from './config.js';
+import { log } from './logger.js';
+import { allButtonLabels } from './locale.js';
+import { now } from './clock.js';
+import { relativePath } from './utils.js';
 
 // Load environment variables
 dotenv.config();
 
-
-const relativePath = (path: string) => {
-  const __filename = fileURLToPath(import.meta.url);
-  const __dirname = dirname(__filename);
-  return join(__dirname, '..', path);
-}
-
-
-
-interface Config {
-  resamania?: {
-    login_url?: string;
-    planning_url?: string;
-  };
-  username?: string;
-  password?: string;
-  user_agent?: string;
-  headless?: boolean;
-}
+type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
 
 interface SessionData {
   cookies: Record<string, string>;
-  storage_state: any;
+  storage_state: StorageState;
   expires_at: string;
   login_method: string;
 }
 
+// Domains that must both hold cookies for the saved session to be usable
+const SESSION_DOMAINS = ['api.resamania.com', 'member.resamania.com'];
+
+// Fallback lifetime when neither the OAuth token nor the cookies tell us
+const DEFAULT_SESSION_HOURS = 24;
+
 export class ResamaniaAuth {
   private config: Config;
   private sessionFile: string;
   private sessionData: SessionData | null;
 
-  constructor(config?: Config) {
-    this.config = config || this.loadConfig();
-    this.sessionFile = relativePath('./data/resamania_session.json');
+  /**
+   * @param sessionFile - Session file relative to the project root
+   */
+  constructor(config: Config, sessionFile: string = './data/resamania_session.json') {
+    this.config = config;
+    this.sessionFile = relativePath(sessionFile);
     this.sessionData = this.loadSession();
   }
 
-  private loadConfig(): Config {
-    // Load from JSON config if available
-    const configPath = relativePath('./config.json')
-    let config: Config = {};
+  private loadSession(): SessionData | null {
+    try {
+      if (existsSync(this.sessionFile)) {
+        return JSON.parse(readFileSync(this.sessionFile, 'utf-8'));
+      }
+    } catch (error) {
+      log.warn(`Could not load session: ${error}`);
+    }
+    return null;
+  }
+
+  /**
+   * Write session data atomically (temp file + rename) so a crash mid-write
+   * never leaves a truncated session file behind
+   */
+  private writeSession(): void {
+    if (!this.sessionData) return;
 
-    if (existsSync(configPath)) {
-      try {
-        config = JSON.parse(readFileSync(configPath, 'utf-8'));
-      } catch (error) {
-        // Ignore errors
+    try {
+      const dir = dirname(this.sessionFile);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
       }
+      const tmpFile = `${this.sessionFile}.tmp`;
+      writeFileSync(tmpFile, JSON.stringify(this.sessionData, null, 2));
+      renameSync(tmpFile, this.sessionFile);
+      log.info(`Session saved (expires at ${this.sessionData.expires_at})`);
+    } catch (error) {
+      log.error(`Could not save session: ${error}`);
     }
+  }
 
-    // Add credentials from environment (no hardcoded fallback for security)
-    config.username = process.env.RESAMANIA_USERNAME;
-    config.password = process.env.RESAMANIA_PASSWORD;
-    config.user_agent = process.env.USER_AGENT || 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
-    config.headless = process.env.HEADLESS_BROWSER?.toLowerCase() === 'true';
+  /**
+   * Capture the context's storage state after a successful login and persist it
+   */
+  async saveSession(context: BrowserContext, loginMethod: string = 'browser'): Promise<void> {
+    const storageState = await context.storageState();
+    const resamaniaCookies = storageState.cookies.filter(cookie => cookie.domain.includes('resamania.com'));
 
-    return config;
+    for (const domain of SESSION_DOMAINS) {
+      if (!resamaniaCookies.some(cookie => cookie.domain.endsWith(domain))) {
+        log.warn(`⚠ No cookies captured for ${domain} - saved session may not be reusable`);
+      }
+    }
+
+    const expiresAt = deriveSessionExpiry(storageState);
+
+    // Session cookies (expires -1) would be dropped when the context is restored,
+    // so pin them to the session expiry to make them persistent
+    const expiresSeconds = Math.floor(expiresAt.getTime() / 1000);
+    for (const cookie of storageState.cookies) {
+      if (cookie.expires === -1) {
+        cookie.expires = expiresSeconds;
+      }
+    }
+
+    const cookies: Record<string, string> = {};
+    for (const cookie of resamaniaCookies) {
+      cookies[cookie.name] = cookie.value;
+    }
+
+    this.sessionData = {
+      cookies,
+      storage_state: storageState,
+      expires_at: expiresAt.toISOString(),
+      login_method: loginMethod,
+    };
+    this.writeSession();
   }
 
-  private loadSession(): SessionData | null {
+  /**
+   * Drop the saved session, e.g. when the server bounced us back to the login page
+   */
+  invalidateSession(): void {
+    this.sessionData = null;
     try {
       if (existsSync(this.sessionFile)) {
-        return JSON.parse(readFileSync(this.sessionFile, 'utf-8'));
+        unlinkSync(this.sessionFile);
+        log.info('Saved session invalidated');
       }
     } catch (error) {
-      console.warn(`Could not load session: ${error}`);
+      log.warn(`Could not remove session file: ${error}`);
     }
-    return null;
   }
 
-  // Commented out - not currently used
-  // private _saveSession(): void {
-  //   if (!this.sessionData) return;
-
-  //   try {
-  //     const dir = dirname(this.sessionFile);
-  //     if (!existsSync(dir)) {
-  //       mkdirSync(dir, { recursive: true });
-  //     }
-  //     writeFileSync(this.sessionFile, JSON.stringify(this.sessionData, null, 2));
-  //     console.log('Session saved');
-  //   } catch (error) {
-  //     console.error(`Could not save session: ${error}`);
-  //   }
-  // }
-
   isAuthenticated(): boolean {
     if (!this.sessionData) {
       return false;
@@ -107,8 +138,8 @@ export class ResamaniaAuth {
     // Check token expiry
     if (this.sessionData.expires_at) {
       const expiresAt = new Date(this.sessionData.expires_at);
-      if (new Date() >= expiresAt) {
-        console.log('Session expired');
+      if (now() >= expiresAt) {
+        log.info('Session expired');
         return false;
       }
     }
@@ -137,18 +168,18 @@ export class ResamaniaAuth {
   }
 
   async loginBrowser(page: Page, _context: BrowserContext): Promise<boolean> {
-    console.log('Attempting browser login...');
+    log.info('Attempting browser login...');
 
     try {
       // Get login URL from config
       const loginUrl = this.config.resamania?.login_url;
       if (!loginUrl) {
-        console.error('Login URL not found in config');
+        log.error('Login URL not found in config');
         return false;
       }
 
       if (!this.config.username || !this.config.password) {
-        console.error('Username or password not set in environment');
+        log.error('Username or password not set in environment');
         return false;
       }
 
@@ -157,25 +188,22 @@ export class ResamaniaAuth {
       await page.waitForTimeout(1000);
 
       // STEP 1: Fill in email
-      console.log('Filling in login credentials...');
+      log.info('Filling in login credentials...');
       await page.fill('input[type="text"]', this.config.username);
       await page.waitForTimeout(500);
 
-      // STEP 2: Click button to proceed to password
+      // STEP 2: Click button to proceed to password (labels of every language: the locale is not known yet)
+      const passwordLabels = allButtonLabels('password');
       try {
-        await page.click('button:has-text("password")', { timeout: 5000 });
+        await page.click(passwordLabels.map(label => `button:has-text(${JSON.stringify(label)})`).join(', '), { timeout: 5000 });
       } catch {
-        try {
-          await page.click('button:has-text("mot de passe")', { timeout: 5000 });
-        } catch {
-          // Find any button after email input
-          const buttons = await page.$$('button');
-          for (const btn of buttons) {
-            const text = (await btn.innerText()).toLowerCase();
-            if (text.includes('password') || text.includes('mot de passe') || text.includes('fill')) {
-              await btn.click();
-              break;
-            }
+        // Find any button after email input
+        const buttons = await page.$$('button');
+        for (const btn of buttons) {
+          const text = (await btn.innerText()).toLowerCase();
+          if (passwordLabels.some(label => text.includes(label.toLowerCase()))) {
+            await btn.click();
+            break;
           }
         }
       }
@@ -196,7 +224,7 @@ export class ResamaniaAuth {
           const buttons = await page.$$('button');
           for (const btn of buttons) {
             const text = (await btn.innerText()).toLowerCase();
-            if (text.includes('log') || text.includes('connect') || text.includes('connexion') || text.includes('submit')) {
+            if (allButtonLabels('login').some(label => text.includes(label.toLowerCase()))) {
               await btn.click();
               break;
             }
@@ -207,22 +235,136 @@ export class ResamaniaAuth {
 
       // Wait for navigation after login
       await page.waitForLoadState('networkidle', { timeout: 15000 });
-      console.log(`Login successful, redirected to: ${page.url()}`);
+      log.info(`Login successful, redirected to: ${page.url()}`);
 
       return true;
     } catch (error) {
-      console.error(`Browser login error: ${error}`);
-      if (error instanceof Error) {
-        console.error(error.stack);
-      }
+      log.error(`Browser login error: ${error}`, { stack: error instanceof Error ? error.stack : undefined });
       return false;
     }
   }
 
-  getStorageState(): any | null {
+  getStorageState(): StorageState | null {
     if (this.isAuthenticated() && this.sessionData?.storage_state) {
       return this.sessionData.storage_state;
     }
     return null;
   }
+
+  /**
+   * OAuth access token stored by the member app, used for direct API calls
+   */
+  getAccessToken(): string | null {
+    const storageState = this.getStorageState();
+    if (!storageState?.origins) return null;
+
+    for (const origin of storageState.origins) {
+      for (const item of origin.localStorage ?? []) {
+        const token = extractAccessToken(item.value);
+        if (token) return token;
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Derive the session expiry from the OAuth token kept in local storage,
+ * falling back to the Resamania cookie expiries
+ * @param storageState - Playwright storage state captured after login
+ * @returns Expiry date, never later than DEFAULT_SESSION_HOURS from now
+ */
+function deriveSessionExpiry(storageState: StorageState): Date {
+  const nowMs = now().getTime();
+  const maxExpiry = nowMs + DEFAULT_SESSION_HOURS * 60 * 60 * 1000;
+
+  // OAuth token expiry is authoritative when we can find it
+  for (const origin of storageState.origins) {
+    for (const item of origin.localStorage) {
+      const tokenExpiry = extractTokenExpiry(item.value);
+      if (tokenExpiry && tokenExpiry > nowMs) {
+        return new Date(Math.min(tokenExpiry, maxExpiry));
+      }
+    }
+  }
+
+  // Otherwise use the latest persistent Resamania cookie
+  const cookieExpiries = storageState.cookies
+    .filter(cookie => cookie.domain.includes('resamania.com') && cookie.expires > 0)
+    .map(cookie => cookie.expires * 1000)
+    .filter(expiry => expiry > nowMs);
+
+  if (cookieExpiries.length > 0) {
+    return new Date(Math.min(Math.max(...cookieExpiries), maxExpiry));
+  }
+
+  return new Date(maxExpiry);
+}
+
+/**
+ * Read the `exp` claim (ms) of a JWT, or null if the value is not a JWT
+ */
+function decodeJwtExpiry(token: string): number | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  try {
+    const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf-8'));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find an access token in a stored value: either a raw JWT or a JSON blob
+ * holding it under `access_token` or `token`
+ */
+function extractAccessToken(value: string): string | null {
+  if (decodeJwtExpiry(value)) return value;
+
+  try {
+    const parsed = JSON.parse(value);
+    if (!parsed || typeof parsed !== 'object') return null;
+    for (const key of ['access_token', 'accessToken', 'token']) {
+      if (typeof parsed[key] === 'string' && parsed[key].length > 0) {
+        return parsed[key];
+      }
+    }
+  } catch {
+    // Not JSON - not a token
+  }
+  return null;
+}
+
+/**
+ * Read an expiry timestamp (ms) from a stored token value.
+ * Handles raw JWTs and JSON blobs holding `expires_at`, `expiresAt`, `exp` or an `access_token` JWT.
+ */
+function extractTokenExpiry(value: string): number | null {
+  const jwtExpiry = decodeJwtExpiry(value);
+  if (jwtExpiry) return jwtExpiry;
+
+  try {
+    const parsed = JSON.parse(value);
+    if (!parsed || typeof parsed !== 'object') return null;
+
+    if (typeof parsed.expires_at === 'number') {
+      // Seconds or milliseconds since epoch
+      return parsed.expires_at < 1e12 ? parsed.expires_at * 1000 : parsed.expires_at;
+    }
+    if (typeof parsed.expiresAt === 'string' || typeof parsed.expiresAt === 'number') {
+      const date = new Date(parsed.expiresAt);
+      if (!Number.isNaN(date.getTime())) return date.getTime();
+    }
+    if (typeof parsed.exp === 'number') {
+      return parsed.exp * 1000;
+    }
+    if (typeof parsed.access_token === 'string') {
+      return decodeJwtExpiry(parsed.access_token);
+    }
+  } catch {
+    // Not JSON - not a token
+  }
+
+  return null;
 }
@@ -2,7 +2,7 @@
  * Resamania Booker - Handles slot listing and booking
  */
 
-import { Page } from 'playwright'
+import type { ElementHandle, Page } from 'playwright'
 import {
   parseSlotDateTime,
   extractDateFromCardText,
@@ -10,7 +10,33 @@ import {
   meetsTimeConstraints as checkTimeConstraints,
   hoursFromNow,
   daysFromNow,
+  extractWaitlistPosition,
+  normalizeTime,
 } from './utils.js'
+import { ResamaniaApiClient, ResamaniaApiError } from './api.js'
+import { BookingHistory, AttemptOutcome, slotKey } from './history.js'
+import { NotificationDispatcher } from './notifier.js'
+import { DEFAULT_DURATION_MINUTES, type Reservation } from './reservations.js'
+import type { Club } from './clubs.js'
+import { findTargetMatch, selectSlots, slotMatchesTarget, type ActivityMatch, type AlternativeClass, type TargetMatch, type TimeWindow } from './matching.js'
+import { log, withLogContext } from './logger.js'
+import type { FilterReason, RunReport } from './report.js'
+import { BookingPolicy, type PolicyViolation } from './policy.js'
+import { now } from './clock.js'
+import {
+  LOCALES,
+  DEFAULT_LOCALE,
+  bookingRefusal,
+  cardDetails,
+  cardStatus,
+  resolvePageLocale,
+  toastRefusal,
+  type BookingRefusal,
+  type Locale,
+  type LocaleSetting,
+} from './locale.js'
+import { SELECTORS, buttonSelectors, queryAll, queryFirst, waitForAny } from './selectors.js'
+import type { FailureRecorder } from './diagnostics.js'
 
 export interface SlotInfo {
   activity_name: string;
@@ -20,101 +46,327 @@ export interface SlotInfo {
   day_of_week: string;
   status: string;
   is_available: boolean;
-  card_element: any; // Playwright element handle
+  card_element: any; // Playwright element handle (null for API slots)
+  api_id?: string;     // Class event IRI when listed through the API
+  attendee_id?: string; // Own attendee IRI when booked or on the waiting list (API only)
+  waitlist_position?: number;
+  club?: string;        // Name of the club whose planning listed this slot
+  coach?: string;       // Coach name, when known
+  room?: string;        // Room or studio, when known
+  capacity?: number;    // Places in the class, when known
+  remaining_places?: number;  // Places left, when known
 }
 
 export interface TargetClass {
+  club?: string;  // Club name from resamania.clubs (default club when omitted)
   day: string;
-  time: string;
+  time: string;                    // Expected start time (the sniper books this occurrence)
+  time_window?: TimeWindow;        // Also accept start times within this window
   activity: string;
-  duration_minutes: number;
+  activity_match?: ActivityMatch;  // How `activity` is compared to class names (default "contains")
+  coach?: string;
+  duration_minutes: number;        // Used to detect overlapping classes
+  priority?: number;               // Higher wins when classes of two targets overlap (default 0)
+  alternatives?: AlternativeClass[];  // Fallbacks for the same day when the class cannot be booked
   enabled: boolean;
+  join_waitlist?: boolean; // Join the waiting list when the class is full
+  auto_cancel_hours_before?: number; // Cancel if still booked and unconfirmed this many hours before start
+}
+
+// Typed result of a booking attempt, read from the toast or API error and the verified class status
+export type BookingResultKind = 'booked' | BookingRefusal | 'unknown_error';
+
+export interface SlotBookingDetail {
+  key: string;
+  activity: string;
+  date: string;
+  time: string;
+  club?: string;
+  outcome: AttemptOutcome | 'skipped';
+  result?: BookingResultKind;     // Result of the last booking attempt (or why the slot was skipped)
+  message?: string;               // Server message: toast text, API error or skip reason
+  verified_by?: 'card' | 'api';   // Where the "Signed up" status was read back after booking
+  attempts: number;
 }
 
 export interface BookingResult {
   bookedCount: number;
   failedCount: number;
+  waitlistedCount: number;
   totalMatching: number;
+  slots: SlotBookingDetail[];  // One entry per matching slot, in booking order
+}
+
+interface BookingAttempt {
+  outcome: 'booked' | 'failed';
+  result: BookingResultKind;
+  message?: string;
+  verifiedBy?: 'card' | 'api';
+}
+
+const RESULT_LABELS: Record<BookingResultKind, string> = {
+  booked: 'Booked',
+  already_booked: 'Already booked',
+  credit_insufficient: 'Insufficient credit',
+  quota_exceeded: 'Booking quota exceeded',
+  full: 'Class full',
+  unknown_error: 'Unknown error',
+};
+
+export interface ListOptions {
+  activities?: string[];  // Activities looked for: the planning is filtered on the page when they come down to one name
 }
 
+// Planning views walked at most, and how long to wait for cards after scrolling or clicking "next"
+const MAX_PLANNING_VIEWS = 31;
+const MAX_SCROLLS = 20;
+const SCROLL_WAIT_MS = 1500;
+const SCROLL_POLL_MS = 250;
+const VIEW_CHANGE_TIMEOUT_MS = 5000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long the card may take to show "Signed up" after the booking was confirmed
+const VERIFY_TIMEOUT_MS = 4000;
+const VERIFY_INTERVAL_MS = 500;
+
 export interface BookingSettings {
   minHoursFromNow?: number;
   maxDaysFromNow?: number;
+  retryAttempts?: number;      // Extra attempts per slot after a failed booking (default 0)
+  retryDelaySeconds?: number;  // Delay before the first retry, doubled after each one (default 5)
+  locale?: LocaleSetting;      // Language of the member area (default: detected from the page)
+}
+
+/**
+ * Plain object view of a slot (without the Playwright element handle)
+ */
+export function slotToJson(slot: SlotInfo): Omit<SlotInfo, 'card_element' | 'at'> & { at: string } {
+  const { card_element: _cardElement, at, ...rest } = slot;
+  return { ...rest, at: at.toISOString() };
+}
+
+export interface BookerDependencies {
+  api?: ResamaniaApiClient | null;
+  history?: BookingHistory;
+  notifier?: NotificationDispatcher;
+  policy?: BookingPolicy;
+  diagnostics?: FailureRecorder;  // Captures the page when a parse or booking step fails
 }
 
 export class ResamaniaSlotBooker {
   private targetClasses: TargetClass[];
   private minHoursFromNow: number;
   private maxDaysFromNow: number;
+  private retryAttempts: number;
+  private retryDelaySeconds: number;
+  private api: ResamaniaApiClient | null;
+  private history: BookingHistory | null;
+  private notifier: NotificationDispatcher | null;
+  private policy: BookingPolicy;
+  private diagnostics: FailureRecorder | null;
+  private localeSetting: LocaleSetting;
+  private locale: Locale | null = null;
+  private reservations: Reservation[] = [];
+  private reservationsRead = false;               // Whether the member's current bookings are known
+  private report: RunReport | null = null;
+  private planningUrl: string | null = null;     // Planning page of the last listing
+  private planningFilter: string | null = null;  // Activity searched on it
+  private currentView = 0;                        // Planning view shown (0: the first one)
+  private slotViews = new WeakMap<SlotInfo, number>();
 
-  constructor(targetClasses: TargetClass[], settings?: BookingSettings) {
+  constructor(targetClasses: TargetClass[], settings?: BookingSettings, deps: BookerDependencies = {}) {
     this.targetClasses = targetClasses;
     this.minHoursFromNow = settings?.minHoursFromNow ?? 6;
     this.maxDaysFromNow = settings?.maxDaysFromNow ?? 4;
+    this.retryAttempts = settings?.retryAttempts ?? 0;
+    this.retryDelaySeconds = settings?.retryDelaySeconds ?? 5;
+    this.api = deps.api ?? null;
+    this.history = deps.history ?? null;
+    this.notifier = deps.notifier ?? null;
+    this.policy = deps.policy ?? new BookingPolicy();
+    this.diagnostics = deps.diagnostics ?? null;
+    this.localeSetting = settings?.locale ?? 'auto';
+  }
+
+  /**
+   * Whether slots can be listed and booked through the API
+   */
+  hasApi(): boolean {
+    return this.api !== null;
+  }
+
+  /**
+   * Stop using the API (e.g. after an auth error) and fall back to the planning page
+   */
+  disableApi(): void {
+    this.api = null;
+  }
+
+  /**
+   * Existing reservations, used to never double-book a time slot
+   * and to rebook classes of the history cancelled outside the booker
+   */
+  setReservations(reservations: Reservation[]): void {
+    this.reservations = [...reservations];
+    this.reservationsRead = true;
+  }
+
+  /**
+   * Booking policy rule a class would break given the classes held so far
+   */
+  policyViolation(slot: Pick<SlotInfo, 'activity_name' | 'time' | 'at'>, durationMinutes: number): PolicyViolation | null {
+    return this.policy.check(slot, durationMinutes, this.reservations);
+  }
+
+  /**
+   * Report receiving the filter decisions and booking attempts of the current run (null to stop reporting)
+   */
+  setReport(report: RunReport | null): void {
+    this.report = report;
+  }
+
+  /**
+   * Locale of the member area: detected when the planning was read, else the configured one
+   */
+  private uiLocale(): Locale {
+    return this.locale ?? LOCALES[this.localeSetting === 'auto' ? DEFAULT_LOCALE : this.localeSetting];
+  }
+
+  /**
+   * Save the page to the run's failure bundle, when diagnostics are on
+   */
+  private async captureFailure(page: Page, step: string, error?: unknown): Promise<void> {
+    await this.diagnostics?.capture(page, step, error);
+  }
+
+  /**
+   * List slots through the JSON API for the booking window
+   * @param club - Club to list (default: the API client's club)
+   */
+  async listSlotsFromApi(club?: Club): Promise<SlotInfo[]> {
+    if (!this.api) {
+      throw new Error('API client not configured');
+    }
+
+    const from = now();
+    const to = new Date(from.getTime() + this.maxDaysFromNow * 24 * 60 * 60 * 1000);
+    const allSlots = await this.api.listSlots(from, to, club?.club_id);
+    for (const slot of allSlots) {
+      slot.club = club?.name;
+    }
+
+    for (const [i, slot] of allSlots.entries()) {
+      log.info(`  [${i + 1}] ${slot.day_of_week} ${slot.time} - ${slot.activity_name}`);
+      log.info(`      Status: ${slot.status}, Available: ${slot.is_available}`);
+    }
+
+    log.rule(true);
+    log.info(`Total activities from API: ${allSlots.length}`);
+
+    return allSlots;
   }
 
   /**
-   * List all available slots from the planning page
+   * List all available slots from the planning page, walking its views (days or weeks, loaded
+   * by scrolling or with the "next" button) until the end of the booking window
+   * @param club - Club whose planning is loaded, recorded on each slot
    */
-  async listSlots(page: Page): Promise<SlotInfo[]> {
+  async listSlots(page: Page, club?: Club, options: ListOptions = {}): Promise<SlotInfo[]> {
     // Wait for activity cards to load
-    console.log('\nWaiting for activity cards to load...');
-    try {
-      await page.waitForSelector('.MuiGrid-root.MuiGrid-item.MuiGrid-grid-md-6.MuiGrid-grid-lg-3', { timeout: 15000 });
-      console.log('✓ Activity cards loaded');
-    } catch (error) {
-      await page.screenshot({ path: 'screenshots/last_list_shots_error.png', fullPage: true });
-      console.warn('⚠ Timeout waiting for activity cards');
+    log.info('\nWaiting for activity cards to load...');
+    if (await waitForAny(page, 'activityCard', 15000)) {
+      log.info('✓ Activity cards loaded');
+    } else {
+      log.warn('⚠ Timeout waiting for activity cards');
+      await this.captureFailure(page, 'activity-cards-timeout');
+    }
+
+    // Read the cards in the language of the member area, detected once
+    if (!this.locale) {
+      this.locale = await resolvePageLocale(page, this.localeSetting);
+      log.info(`Member area language: ${this.locale.code}${this.localeSetting === 'auto' ? ' (detected)' : ''}`);
     }
+    const locale = this.locale;
 
-    // Parse all activity cards
-    console.log('\nParsing all activity cards...');
-    const activityCards = await page.$$('.MuiGrid-root.MuiGrid-item.MuiGrid-grid-md-6.MuiGrid-grid-lg-3');
-    console.log(`Found ${activityCards.length} activity cards`);
+    this.planningUrl = page.url();
+    this.planningFilter = await this.filterPlanning(page, options.activities);
+    this.currentView = 0;
 
-    const allSlots: SlotInfo[] = [];
-    const MAX_ACTIVITIES = 50;
+    // Parse the activity cards of each view, keeping the first occurrence of each class
+    log.info('\nParsing all activity cards...');
+    const windowEnd = now().getTime() + this.maxDaysFromNow * DAY_MS;
+    const slotsByKey = new Map<string, SlotInfo>();
 
-    for (let i = 0; i < Math.min(activityCards.length, MAX_ACTIVITIES); i++) {
-      const card = activityCards[i];
+    for (let view = 0; view < MAX_PLANNING_VIEWS; view++) {
+      const cards = await this.loadAllCards(page);
+      const viewSlots = await this.parseCards(page, cards, locale, club);
+
+      let added = 0;
+      for (const slot of viewSlots) {
+        if (slotsByKey.has(slotKey(slot))) continue;
+        slotsByKey.set(slotKey(slot), slot);
+        this.slotViews.set(slot, view);
+        added++;
+      }
+      log.info(`View ${view + 1}: ${cards.length} activity cards, ${added} new`);
+
+      // Stop at the end of the booking window, or when the planning shows the same classes again
+      const lastStart = Math.max(...viewSlots.map(slot => slot.at.getTime()));
+      if (lastStart >= windowEnd) break;
+      if (view > 0 && cards.length > 0 && added === 0) break;
+      if (!await this.showNextView(page, locale)) break;
+      this.currentView = view + 1;
+    }
+
+    const allSlots = [...slotsByKey.values()].sort((a, b) => a.at.getTime() - b.at.getTime());
+    for (const [i, slot] of allSlots.entries()) {
+      log.info(`  [${i + 1}] ${slot.day_of_week} ${slot.time} - ${slot.activity_name}`);
+      log.info(`      Status: ${slot.status}, Available: ${slot.is_available}`);
+      log.info(`      Date: ${slot.at}`);
+    }
 
+    log.rule(true);
+    log.info(`Total activities parsed: ${allSlots.length}`);
+
+    return allSlots;
+  }
+
+  /**
+   * Parse the activity cards of the current planning view
+   * Cards whose date or time cannot be read are left out and reported as parse errors
+   */
+  private async parseCards(page: Page, cards: ElementHandle[], locale: Locale, club?: Club): Promise<SlotInfo[]> {
+    const slots: SlotInfo[] = [];
+    const parseErrors: string[] = [];
+
+    for (const [i, card] of cards.entries()) {
       try {
         // Get full card text first (used for multiple extractions)
         const cardText = await card.innerText();
 
         // Extract activity name
-        const activityHeading = await card.$('h3');
-        if (!activityHeading) continue;
+        const activityHeading = await queryFirst(card, 'activityName');
+        if (!activityHeading) {
+          parseErrors.push(`card ${i + 1}: no activity name`);
+          continue;
+        }
         const activityName = (await activityHeading.innerText()).trim();
 
         // Extract time
-        const timeHeading = await card.$('h5');
-        const classTime = timeHeading ? (await timeHeading.innerText()).trim() : 'Unknown';
-
-        // Extract date and day of week from card text (not relying on paragraph order)
-        const dateText = extractDateFromCardText(cardText);
-        const dayOfWeek = extractDayOfWeekFromCardText(cardText);
-
-        // Determine status
-        let statusText = 'Available';
-        if (cardText.includes('Signed up')) {
-          statusText = 'Signed up';
-        } else if (cardText.includes('Full')) {
-          statusText = 'Full';
-        } else if (cardText.includes('waiting list')) {
-          statusText = 'On waiting list';
-        } else if (cardText.match(/(\d+)\s+remaining place/)) {
-          const match = cardText.match(/(\d+)\s+remaining place/);
-          statusText = match ? `${match[1]} remaining places` : 'Available';
-        }
+        const timeHeading = await queryFirst(card, 'classTime');
+        const classTime = timeHeading ? normalizeTime(await timeHeading.innerText()) : 'Unknown';
+
+        // Extract date and day of week from card text (not relying on paragraph order), in English
+        const dateText = extractDateFromCardText(cardText, locale.code);
+        const dayOfWeek = extractDayOfWeekFromCardText(cardText, locale.code);
+
+        // Determine status (normalized to the English status names)
+        const statusText = cardStatus(cardText, locale);
 
         // Check if book button exists (available to book)
-        const bookButton = await card.$('button:has-text("Book")');
+        const bookButton = await queryFirst(card, buttonSelectors(locale, ['book']));
         const isAvailable = bookButton !== null;
 
-        // Parse the date
-        const slotDate = parseSlotDateTime(dateText, classTime);
-
         const slotInfo: SlotInfo = {
           activity_name: activityName,
           date: dateText,
@@ -123,26 +375,133 @@ export class ResamaniaSlotBooker {
           status: statusText,
           is_available: isAvailable,
           card_element: card,
-          at: slotDate,
+          at: parseSlotDateTime(dateText, classTime),
+          club: club?.name,
+          ...cardDetails(cardText, locale),
         };
 
-        allSlots.push(slotInfo);
-
-        // Verbose logging
-        console.log(`  [${i + 1}] ${dayOfWeek} ${classTime} - ${activityName}`);
-        console.log(`      Status: ${statusText}, Available: ${isAvailable}`);
-        console.log(`      Date: ${slotInfo.at}`);
+        if (statusText === 'On waiting list') {
+          slotInfo.waitlist_position = extractWaitlistPosition(cardText, locale.code) ?? undefined;
+        }
 
+        slots.push(slotInfo);
       } catch (error) {
-        console.warn(`⚠ Error parsing card ${i + 1}: ${error}`);
-        continue;
+        log.warn(`⚠ Error parsing card ${i + 1}: ${error}`);
+        parseErrors.push(`card ${i + 1}: ${error}`);
       }
     }
 
-    console.log('\n' + '='.repeat(60));
-    console.log(`Total activities parsed: ${allSlots.length}`);
+    if (parseErrors.length > 0) {
+      await this.captureFailure(page, 'parse-cards', parseErrors.join('\n'));
+    }
 
-    return allSlots;
+    return slots;
+  }
+
+  /**
+   * Cards of the current planning view, scrolling down until no more cards load
+   */
+  private async loadAllCards(page: Page): Promise<ElementHandle[]> {
+    let cards = await queryAll(page, 'activityCard');
+
+    for (let scroll = 0; scroll < MAX_SCROLLS && cards.length > 0; scroll++) {
+      const scrollable = await page.evaluate('window.innerHeight + window.scrollY < document.documentElement.scrollHeight - 1')
+        .catch(() => false);
+      if (!scrollable) break;
+
+      await cards[cards.length - 1].scrollIntoViewIfNeeded().catch(() => undefined);
+      await page.evaluate('window.scrollTo(0, document.documentElement.scrollHeight)').catch(() => undefined);
+
+      const count = cards.length;
+      const deadline = Date.now() + SCROLL_WAIT_MS;
+      while (cards.length === count && Date.now() < deadline) {
+        await page.waitForTimeout(SCROLL_POLL_MS);
+        cards = await queryAll(page, 'activityCard');
+      }
+      if (cards.length === count) break;
+    }
+
+    return cards;
+  }
+
+  /**
+   * Show the following days of the planning
+   * @returns false when there is no "next" button or the planning did not change
+   */
+  private async showNextView(page: Page, locale: Locale): Promise<boolean> {
+    const next = await queryFirst(page, [...SELECTORS.nextPeriod, ...buttonSelectors(locale, ['next'])]);
+    if (!next || !await next.isEnabled().catch(() => false)) return false;
+
+    const before = await this.viewSignature(page);
+    await next.click();
+    if (await this.waitForViewChange(page, before)) return true;
+
+    log.warn('⚠ Planning did not change after clicking "next"');
+    return false;
+  }
+
+  /**
+   * Narrow the planning to one activity with its search field, when it has one
+   * @returns the searched text, or null when the planning is not filtered
+   */
+  private async filterPlanning(page: Page, activities: string[] = []): Promise<string | null> {
+    const names = [...new Set(activities.map(activity => activity.trim()).filter(Boolean))];
+    if (names.length !== 1) return null;
+
+    const search = await queryFirst(page, 'activitySearch');
+    if (!search) return null;
+
+    const before = await this.viewSignature(page);
+    await search.fill(names[0]);
+    await this.waitForViewChange(page, before);
+    log.info(`Planning filtered on "${names[0]}"`);
+    return names[0];
+  }
+
+  /**
+   * Go back to the planning view that listed a slot
+   */
+  private async showPlanningView(page: Page, view: number): Promise<boolean> {
+    if (!this.planningUrl) return false;
+
+    log.info(`  Going back to planning view ${view + 1}...`);
+    await page.goto(this.planningUrl, { waitUntil: 'networkidle' });
+    this.currentView = 0;
+    if (!await waitForAny(page, 'activityCard', 15000)) return false;
+    if (this.planningFilter) {
+      await this.filterPlanning(page, [this.planningFilter]);
+    }
+
+    while (this.currentView < view) {
+      if (!await this.showNextView(page, this.uiLocale())) return false;
+      this.currentView++;
+    }
+    await this.loadAllCards(page);
+    return true;
+  }
+
+  /**
+   * What the planning shows: its URL and cards, compared to tell when a view has changed
+   */
+  private async viewSignature(page: Page): Promise<string> {
+    const cards = await queryAll(page, 'activityCard');
+    const first = cards.length > 0 ? await cards[0].innerText() : '';
+    const last = cards.length > 1 ? await cards[cards.length - 1].innerText() : '';
+    return `${page.url()}|${cards.length}|${first}|${last}`;
+  }
+
+  private async waitForViewChange(page: Page, before: string): Promise<boolean> {
+    const deadline = Date.now() + VIEW_CHANGE_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      await page.waitForTimeout(SCROLL_POLL_MS);
+      // Reading a page while it navigates throws; try again once it is loaded
+      const after = await this.viewSignature(page).catch(() => before);
+      if (after !== before) {
+        await page.waitForLoadState('networkidle').catch(() => undefined);
+        return true;
+      }
+    }
+    return false;
   }
 
   /**
@@ -150,136 +509,704 @@ export class ResamaniaSlotBooker {
    */
   filterMatchingSlots({ allSlots }: { allSlots: SlotInfo[] }): SlotInfo[] {
     // First filter by target class matching
-    const matchingSlots = allSlots.filter(slot => this.matchesTargetClass(slot));
-    console.log(`Matching target classes: ${matchingSlots.length}`);
+    const matchingSlots = allSlots.filter(slot => {
+      if (this.matchesTargetClass(slot)) return true;
+      this.skip(slot, 'not matching');
+      return false;
+    });
+    log.info(`Matching target classes: ${matchingSlots.length}`);
 
     // Then filter by time constraints
     const timeFilteredSlots = matchingSlots.filter(slot => this.meetsTimeConstraints(slot));
-    console.log(`After time filtering (4h min, 4d max): ${timeFilteredSlots.length}`);
-    console.log('='.repeat(60));
+    log.info(`After time filtering (${this.minHoursFromNow}h min, ${this.maxDaysFromNow}d max): ${timeFilteredSlots.length}`);
+
+    // Then keep one class per target and day (alternatives as fallbacks) and resolve overlaps by priority
+    const selection = selectSlots(timeFilteredSlots, this.targetClasses);
+    for (const { slot, reason, detail } of selection.skipped) {
+      this.skip(slot, reason, detail);
+    }
+    if (selection.selected.length !== timeFilteredSlots.length) {
+      log.info(`After alternatives and priorities: ${selection.selected.length}`);
+    }
+
+    // Then drop slots already confirmed or cancelled in a previous run
+    const unconfirmedSlots = selection.selected.filter(slot => !this.isAlreadyConfirmed(slot) && !this.wasCancelled(slot));
+    if (unconfirmedSlots.length !== selection.selected.length) {
+      log.info(`After skipping already confirmed: ${unconfirmedSlots.length}`);
+    }
+
+    // Then apply the booking policy, as if the slots were booked in order
+    const allowedSlots = this.applyPolicy(unconfirmedSlots);
+    if (allowedSlots.length !== unconfirmedSlots.length) {
+      log.info(`After booking policy: ${allowedSlots.length}`);
+    }
+    log.rule();
+
+    for (const slot of allowedSlots) {
+      this.report?.recordSelected(slot);
+    }
 
-    if (timeFilteredSlots.length === 0) {
-      console.log('\nNo matching slots found to book after applying filters.');
+    if (allowedSlots.length === 0) {
+      log.info('\nNo matching slots found to book after applying filters.');
       return [];
     }
 
     // Display matching slots
-    console.log('\nMatching slots:');
-    for (const slot of timeFilteredSlots) {
+    log.info('\nMatching slots:');
+    for (const slot of allowedSlots) {
       const availIcon = slot.is_available ? '✓ BOOKABLE' : '✗ NOT AVAILABLE';
       const hours = hoursFromNow(slot.at).toFixed(1);
-      console.log(`  ${availIcon} - ${slot.day_of_week} ${slot.time} - ${slot.activity_name} (in ${hours}h)`);
-      console.log(`    Status: ${slot.status}`);
+      log.info(`  ${availIcon} - ${slot.day_of_week} ${slot.time} - ${slot.activity_name} (in ${hours}h)`);
+      log.info(`    Status: ${slot.status}`);
     }
 
-    return timeFilteredSlots;
+    return allowedSlots;
+  }
+
+  /**
+   * Drop slots breaking the booking policy; each slot that would be booked counts for the next ones
+   */
+  private applyPolicy(slots: SlotInfo[]): SlotInfo[] {
+    const held = [...this.reservations];
+
+    return slots.filter(slot => {
+      const match = this.findMatch(slot);
+      const willBook = (slot.is_available && slot.status !== 'Full') || (slot.status === 'Full' && match?.target.join_waitlist);
+      if (!willBook) return true;
+
+      const violation = this.policy.check(slot, match?.duration_minutes ?? DEFAULT_DURATION_MINUTES, held);
+      if (violation) {
+        this.skip(slot, violation.rule, violation.message);
+        return false;
+      }
+
+      held.push(this.reservationOf(slot, slot.status === 'Full' ? 'waitlisted' : 'booked'));
+      return true;
+    });
   }
 
   /**
    * Attempt to book all matching slots
    */
   async bookSlots(page: Page, matchingSlots: SlotInfo[]): Promise<BookingResult> {
-    console.log('\n' + '='.repeat(60));
-    console.log('Starting booking process...');
-    console.log('='.repeat(60));
+    log.banner('Starting booking process...');
 
+    const slots: SlotBookingDetail[] = [];
     let bookedCount = 0;
     let failedCount = 0;
+    let waitlistedCount = 0;
 
     for (const slot of matchingSlots) {
-      if (!slot.is_available) {
-        console.log(`\n⊘ Skipping ${slot.activity_name} (${slot.day_of_week} ${slot.time}) - not available`);
-        continue;
+      const detail = await withLogContext({ slot: slotKey(slot) }, () => this.bookSlot(page, slot));
+      slots.push(detail);
+      if (detail.outcome === 'booked') {
+        bookedCount++;
+      } else if (detail.outcome === 'waitlisted') {
+        waitlistedCount++;
+      } else if (detail.outcome === 'failed') {
+        failedCount++;
       }
 
-      // Skip if the status is "Full"
-      if (slot.status === 'Full') {
-        console.log(`\n⊘ Skipping ${slot.activity_name} (${slot.day_of_week} ${slot.time}) - marked as Full`);
-        continue;
+      // Small delay between bookings on the planning page
+      if (detail.outcome !== 'skipped' && !(slot.api_id && this.api)) {
+        await page.waitForTimeout(1000);
       }
+    }
 
-      console.log(`\n→ Attempting to book: ${slot.activity_name} (${slot.day_of_week} ${slot.time})`);
+    return {
+      bookedCount,
+      failedCount,
+      waitlistedCount,
+      totalMatching: matchingSlots.length,
+      slots,
+    };
+  }
 
-      try {
-        // Find the book button in this card
-        const bookButton = await slot.card_element.$('button:has-text("Book")');
+  /**
+   * Book one matching slot, joining the waiting list of a full class when its target asks for it
+   * @returns what happened to the slot, with outcome 'skipped' when it cannot be booked
+   */
+  private async bookSlot(page: Page, slot: SlotInfo): Promise<SlotBookingDetail> {
+    // Bookings made since the slots were filtered count too
+    const violation = this.policyViolation(slot, this.findMatch(slot)?.duration_minutes ?? DEFAULT_DURATION_MINUTES);
+    if (violation) {
+      const message = `${violation.rule}: ${violation.message}`;
+      log.info(`\n⊘ Skipping ${slot.activity_name} (${slot.day_of_week} ${slot.time}) - ${message}`);
+      this.report?.recordAttempt(slot, 'skipped', message);
+      return bookingDetail(slot, 'skipped', { message });
+    }
 
-        if (!bookButton) {
-          console.log('  ✗ Book button not found (may have been booked already)');
-          failedCount++;
-          continue;
+    if (slot.status === 'Full' && this.findTarget(slot)?.join_waitlist) {
+      log.info(`\n→ Class is full, joining waiting list: ${slot.activity_name} (${slot.day_of_week} ${slot.time})`);
+      const joined = await this.joinWaitlist(page, slot);
+      return bookingDetail(slot, joined ? 'waitlisted' : 'failed', {
+        result: 'full',
+        message: slot.waitlist_position !== undefined ? `Waiting list position ${slot.waitlist_position}` : undefined,
+        attempts: 1,
+      });
+    }
+
+    if (!slot.is_available) {
+      log.info(`\n⊘ Skipping ${slot.activity_name} (${slot.day_of_week} ${slot.time}) - not available`);
+      const result = slot.status === 'Full' ? 'full' : undefined;
+      this.report?.recordAttempt(slot, 'skipped', 'Not available', result);
+      return bookingDetail(slot, 'skipped', { result, message: 'Not available' });
+    }
+
+    // Skip if the status is "Full"
+    if (slot.status === 'Full') {
+      log.info(`\n⊘ Skipping ${slot.activity_name} (${slot.day_of_week} ${slot.time}) - marked as Full`);
+      this.report?.recordAttempt(slot, 'skipped', 'Full', 'full');
+      return bookingDetail(slot, 'skipped', { result: 'full', message: 'Full' });
+    }
+
+    log.info(`\n→ Attempting to book: ${slot.activity_name} (${slot.day_of_week} ${slot.time})`);
+
+    // Retry failed bookings with exponential backoff, unless the server gave a definite reason
+    let attempt = await this.attemptBooking(page, slot);
+    let attempts = 1;
+    for (; attempt.result === 'unknown_error' && attempts <= this.retryAttempts; attempts++) {
+      this.history?.recordAttempt(slot, attempt.outcome, attemptMessage(attempt));
+      this.report?.recordAttempt(slot, attempt.outcome, attempt.message, attempt.result);
+      const delaySeconds = this.retryDelaySeconds * 2 ** (attempts - 1);
+      log.info(`  ↻ Retry ${attempts}/${this.retryAttempts} in ${delaySeconds}s...`);
+      await page.waitForTimeout(delaySeconds * 1000);
+      attempt = await this.attemptBooking(page, slot);
+    }
+
+    await this.recordOutcome(slot, attempt.outcome, attemptMessage(attempt), attempt.result);
+    return bookingDetail(slot, attempt.outcome, {
+      result: attempt.result,
+      message: attempt.message,
+      verified_by: attempt.verifiedBy,
+      attempts,
+    });
+  }
+
+  /**
+   * Make one booking attempt, through the API or by clicking the planning card
+   * @returns the verified outcome, not yet recorded
+   */
+  private async attemptBooking(page: Page, slot: SlotInfo): Promise<BookingAttempt> {
+    if (slot.api_id && this.api) {
+      return this.bookViaApi(slot);
+    }
+
+    if (!slot.card_element || !await this.locateCard(page, slot)) {
+      log.info('  ✗ No planning card for this slot');
+      return { outcome: 'failed', result: 'unknown_error', message: 'No planning card for this slot' };
+    }
+
+    let toastText: string | null = null;
+    try {
+      // Find the book button in this card
+      const locale = this.uiLocale();
+      const bookButton = await queryFirst(slot.card_element, buttonSelectors(locale, ['book']));
+
+      if (!bookButton) {
+        // A previous attempt may have gone through without showing it
+        log.info('  ✗ Book button not found - checking the card status');
+        if (await this.readCardStatus(page, slot) === 'Signed up') {
+          log.info(`  ✓ Already booked: ${slot.activity_name}`);
+          slot.status = 'Signed up';
+          return { outcome: 'booked', result: 'already_booked', message: 'Book button not found', verifiedBy: 'card' };
+        }
+        await this.captureFailure(page, 'book-button-missing', slot.activity_name);
+        return { outcome: 'failed', result: 'unknown_error', message: 'Book button not found' };
+      }
+
+      // Click the book button
+      log.info('  Clicking "Book" button...');
+      await bookButton.click();
+
+      // Check for confirmation dialog (or an immediate toast when there is none)
+      const prompt = await page
+        .waitForSelector([...buttonSelectors(locale, ['confirm']), ...SELECTORS.toast].join(', '), { timeout: 3000 })
+        .catch(() => null);
+      const dialogButton = prompt && await prompt.evaluate(node => node.tagName === 'BUTTON') ? prompt : null;
+      if (dialogButton) {
+        log.info('  Confirming booking...');
+        await dialogButton.click();
+      }
+
+      // The toast carries the server message; the card tells whether the booking went through
+      const toast = await waitForAny(page, 'toast', 5000);
+      toastText = toast ? (await toast.innerText()).trim() || null : null;
+      log.info(toastText ? `  Toast message: "${toastText}"` : '  ⚠ No toast message detected');
+    } catch (error) {
+      log.info(`  ✗ FAILED: ${error}`);
+      await this.captureFailure(page, 'booking-error', error);
+      return { outcome: 'failed', result: 'unknown_error', message: String(error) };
+    }
+
+    return this.verifyPageBooking(page, slot, toastText);
+  }
+
+  /**
+   * Type the result of a booking made on the planning page from its toast, and confirm it
+   * by re-reading the class card until it shows "Signed up"
+   */
+  private async verifyPageBooking(page: Page, slot: SlotInfo, toastText: string | null): Promise<BookingAttempt> {
+    const locale = this.uiLocale();
+    const refusal = toastText ? toastRefusal(toastText, locale) : null;
+    const message = toastText ?? undefined;
+
+    // A refused booking leaves the card as it was, except "already booked"
+    const waitMs = refusal && refusal !== 'already_booked' ? 0 : VERIFY_TIMEOUT_MS;
+    const status = await this.waitForCardStatus(page, slot, 'Signed up', waitMs);
+
+    if (status === 'Signed up') {
+      const result = refusal === 'already_booked' ? 'already_booked' : 'booked';
+      log.info(`  ✓ SUCCESS: ${RESULT_LABELS[result]} ${slot.activity_name} (card shows "Signed up")`);
+      slot.status = 'Signed up';
+      slot.is_available = false;
+      return { outcome: 'booked', result, message, verifiedBy: 'card' };
+    }
+
+    // Card gone from the page: the toast is all there is to go by
+    if (status === null && !refusal && toastText && locale.bookingSuccess.test(toastText)) {
+      log.info(`  ✓ SUCCESS: Booked ${slot.activity_name} (card not found, going by the toast)`);
+      return { outcome: 'booked', result: 'booked', message };
+    }
+
+    const result = refusal ?? 'unknown_error';
+    log.info(`  ✗ FAILED: ${RESULT_LABELS[result]}${status ? ` - card shows "${status}"` : ''}`);
+    await this.captureFailure(page, toastText ? 'booking-rejected' : 'booking-no-toast', toastText ?? slot.activity_name);
+    return {
+      outcome: 'failed',
+      result,
+      message: message ?? (status ? `No confirmation, card shows "${status}"` : 'No confirmation'),
+    };
+  }
+
+  /**
+   * Re-read the status of a slot's card until it is `expected` or the timeout elapses
+   * @returns the last status read, or null when the card cannot be found
+   */
+  private async waitForCardStatus(page: Page, slot: SlotInfo, expected: string, timeoutMs: number): Promise<string | null> {
+    const deadline = Date.now() + timeoutMs;
+    let status = await this.readCardStatus(page, slot);
+    while (status !== expected && Date.now() < deadline) {
+      await page.waitForTimeout(VERIFY_INTERVAL_MS);
+      status = await this.readCardStatus(page, slot);
+    }
+    return status;
+  }
+
+  /**
+   * Current status of a slot's card
+   * @returns null when the card is not on the page
+   */
+  private async readCardStatus(page: Page, slot: SlotInfo): Promise<string | null> {
+    if (!await this.locateCard(page, slot)) return null;
+    const text = await slot.card_element.innerText().catch(() => null);
+    return text === null ? null : cardStatus(text, this.uiLocale());
+  }
+
+  /**
+   * Make sure a slot's card is on the page: find it again when the planning re-rendered it,
+   * going back to the planning view that listed it if another one is shown
+   * @returns false when the card cannot be found
+   */
+  private async locateCard(page: Page, slot: SlotInfo): Promise<boolean> {
+    const attached = slot.card_element &&
+      await slot.card_element.evaluate((node: { isConnected: boolean }) => node.isConnected).catch(() => false);
+    if (attached) return true;
+
+    const view = this.slotViews.get(slot);
+    if (view !== undefined && view !== this.currentView && !await this.showPlanningView(page, view)) {
+      slot.card_element = null;
+      return false;
+    }
+
+    slot.card_element = await this.findCard(page, slot);
+    return slot.card_element !== null;
+  }
+
+  /**
+   * Card of the current planning view showing the same class as a slot
+   */
+  private async findCard(page: Page, slot: SlotInfo): Promise<ElementHandle | null> {
+    const locale = this.uiLocale();
+    for (const card of await queryAll(page, 'activityCard')) {
+      const name = await queryFirst(card, 'activityName');
+      const time = await queryFirst(card, 'classTime');
+      if (!name || !time) continue;
+      if ((await name.innerText()).trim() !== slot.activity_name) continue;
+      if (normalizeTime(await time.innerText()) !== slot.time) continue;
+      if (extractDateFromCardText(await card.innerText(), locale.code) !== slot.date) continue;
+      return card;
+    }
+    return null;
+  }
+
+  /**
+   * Join the waiting list of a full class
+   * @returns true if we are now on the waiting list
+   */
+  private async joinWaitlist(page: Page, slot: SlotInfo): Promise<boolean> {
+    try {
+      if (slot.api_id && this.api) {
+        await this.api.joinWaitingList(slot);
+      } else {
+        const locale = this.uiLocale();
+        const waitlistButton = slot.card_element && await this.locateCard(page, slot)
+          ? await queryFirst(slot.card_element, buttonSelectors(locale, ['joinWaitlist']))
+          : null;
+        if (!waitlistButton) {
+          log.info('  ✗ Waiting list button not found');
+          await this.captureFailure(page, 'waitlist-button-missing', slot.activity_name);
+          await this.recordOutcome(slot, 'failed', 'Waiting list button not found');
+          return false;
         }
 
-        // Click the book button
-        console.log('  Clicking "Book" button...');
-        await bookButton.click();
+        await waitlistButton.click();
         await page.waitForTimeout(1500);
 
-        // Check for confirmation dialog
-        const dialogButton = await page.$('button:has-text("Confirm")');
+        const dialogButton = await queryFirst(page, buttonSelectors(locale, ['confirm']));
         if (dialogButton) {
-          console.log('  Confirming booking...');
           await dialogButton.click();
           await page.waitForTimeout(1500);
         }
 
-        // Wait for and check toast message
-        console.log('  Checking for success toast...');
-        await page.waitForTimeout(2000);
-
-        // Look for success indicators (toast, snackbar, etc.)
-        const successToast = await page.$('.MuiSnackbar-root, .MuiAlert-root, [role="alert"]');
-
-        if (successToast) {
-          const toastText = await successToast.innerText();
-          console.log(`  ✓ Toast message: "${toastText}"`);
-
-          // Check if it's a success message
-          if (toastText.toLowerCase().includes('success') ||
-              toastText.toLowerCase().includes('booked') ||
-              toastText.toLowerCase().includes('confirmed')) {
-            console.log(`  ✓ SUCCESS: Booked ${slot.activity_name}`);
-            bookedCount++;
-          } else {
-            console.log(`  ⚠ Booking may have failed - toast: "${toastText}"`);
-            failedCount++;
-          }
-        } else {
-          console.log('  ⚠ No toast message detected - booking status unknown');
-          // bookedCount++;
+        // Position is shown either in the toast or on the refreshed card
+        const toast = await queryFirst(page, 'toast');
+        const toastText = toast ? await toast.innerText() : '';
+        const cardText = await slot.card_element.innerText().catch(() => '');
+        slot.waitlist_position = extractWaitlistPosition(toastText, locale.code) ??
+          extractWaitlistPosition(cardText, locale.code) ?? undefined;
+      }
+
+      slot.status = 'On waiting list';
+      const position = slot.waitlist_position !== undefined ? `position ${slot.waitlist_position}` : 'position unknown';
+      log.info(`  ✓ On waiting list for ${slot.activity_name} (${position})`);
+      await this.recordOutcome(slot, 'waitlisted', position);
+      return true;
+    } catch (error) {
+      if (error instanceof ResamaniaApiError && error.isFatal) throw error;
+      log.info(`  ✗ FAILED to join waiting list: ${error}`);
+      if (!slot.api_id) await this.captureFailure(page, 'waitlist-error', error);
+      await this.recordOutcome(slot, 'failed', String(error));
+      return false;
+    }
+  }
+
+  /**
+   * Cancel a booked slot
+   * @param reason - Why the booking is cancelled, kept in the history
+   * @returns true if the booking was cancelled
+   */
+  async cancelSlot(page: Page, slot: SlotInfo, reason: string): Promise<boolean> {
+    log.info(`\n→ Cancelling: ${slot.activity_name} (${slot.day_of_week} ${slot.time})`);
+
+    try {
+      if (slot.attendee_id && this.api) {
+        await this.api.cancelBooking(slot.attendee_id);
+      } else {
+        const locale = this.uiLocale();
+        const cancelButton = slot.card_element && await this.locateCard(page, slot)
+          ? await queryFirst(slot.card_element, buttonSelectors(locale, ['cancel']))
+          : null;
+        if (!cancelButton) {
+          log.info('  ✗ Cancel button not found');
+          await this.captureFailure(page, 'cancel-button-missing', slot.activity_name);
+          return false;
+        }
+
+        await cancelButton.click();
+        await page.waitForTimeout(1500);
+
+        const dialogButton = await queryFirst(page,
+          SELECTORS.dialog.flatMap(dialog => buttonSelectors(locale, ['confirm', 'yes'], `${dialog} `)));
+        if (dialogButton) {
+          log.info('  Confirming cancellation...');
+          await dialogButton.click();
+          await page.waitForTimeout(1500);
         }
 
+        const toast = await queryFirst(page, 'toast');
+        if (toast) {
+          log.info(`  Toast message: "${await toast.innerText()}"`);
+        }
+      }
+
+      slot.status = 'Available';
+      slot.attendee_id = undefined;
+      this.history?.recordDecision(slot, 'cancelled', reason);
+      log.info(`  ✓ Cancelled ${slot.activity_name}`);
+      await this.notifier?.notifySlot('cancelled', slot, reason);
+      return true;
+    } catch (error) {
+      log.info(`  ✗ FAILED to cancel: ${error}`);
+      if (!slot.attendee_id) await this.captureFailure(page, 'cancel-error', error);
+      await this.notifier?.notifySlot('failure', slot, `Cancellation failed: ${error}`);
+      return false;
+    }
+  }
+
+  /**
+   * Cancel booked slots whose target asks for auto-cancel, once inside the
+   * auto-cancel window and unless attendance was confirmed
+   * @returns number of cancelled bookings
+   */
+  async autoCancel(page: Page, allSlots: SlotInfo[]): Promise<number> {
+    let cancelledCount = 0;
+
+    for (const slot of allSlots) {
+      if (slot.status !== 'Signed up') continue;
+
+      const hoursBefore = this.findTarget(slot)?.auto_cancel_hours_before;
+      if (hoursBefore === undefined) continue;
+
+      const hours = hoursFromNow(slot.at);
+      if (hours <= 0 || hours > hoursBefore) continue;
+
+      if (this.history?.isAttendanceConfirmed(slot)) {
+        log.info(`  ✓ Keeping ${slot.activity_name} (${slot.day_of_week} ${slot.time}) - attendance confirmed`);
+        continue;
+      }
+
+      const reason = `Not confirmed ${hoursBefore}h before start (${hours.toFixed(1)}h left)`;
+      if (await this.cancelSlot(page, slot, reason)) {
+        cancelledCount++;
+      }
+    }
+
+    return cancelledCount;
+  }
+
+  /**
+   * Detect waitlisted slots that have been promoted to "Signed up" since a previous run
+   * @returns the promoted slots
+   */
+  async detectPromotions(allSlots: SlotInfo[]): Promise<SlotInfo[]> {
+    if (!this.history) return [];
+
+    const promoted: SlotInfo[] = [];
+    for (const slot of allSlots) {
+      if (slot.status !== 'Signed up') continue;
+
+      const lastAttempt = this.history.attemptsFor(slot).at(-1);
+      if (lastAttempt?.outcome === 'waitlisted') {
+        log.info(`🎉 Promoted from waiting list: ${slot.activity_name} (${slot.day_of_week} ${slot.time})`);
+        await this.recordOutcome(slot, 'promoted');
+        promoted.push(slot);
+      }
+    }
+    return promoted;
+  }
+
+  /**
+   * Book a single slot through the API
+   * @returns the outcome, not yet recorded; rethrows errors that make the API unusable
+   */
+  private async bookViaApi(slot: SlotInfo): Promise<BookingAttempt> {
+    let refusal: BookingRefusal | null = null;
+    let message: string;
+    try {
+      slot.attendee_id = await this.api!.bookSlot(slot);
+      message = slot.attendee_id;
+    } catch (error) {
+      if (!(error instanceof ResamaniaApiError) || error.isFatal) throw error;
+      message = error.serverMessage;
+      refusal = bookingRefusal(message, this.uiLocale());
+      if (refusal !== 'already_booked') {
+        const result = refusal ?? 'unknown_error';
+        log.info(`  ✗ FAILED: ${RESULT_LABELS[result]} (${error.status}) ${message}`);
+        return { outcome: 'failed', result, message };
+      }
+    }
+
+    return this.readBackApiBooking(slot, refusal, message);
+  }
+
+  /**
+   * Read a class back after an API booking: the created attendee (or the existing one) must hold a place
+   * @param refusal - 'already_booked' when the API answered the member already had the class
+   * @returns the outcome, not yet recorded
+   */
+  private async readBackApiBooking(slot: SlotInfo, refusal: 'already_booked' | null, message: string): Promise<BookingAttempt> {
+    let status: string | null = null;
+    try {
+      const current = await this.api!.getSlot(slot.api_id!);
+      status = current.status;
+      slot.attendee_id = current.attendee_id ?? slot.attendee_id;
+    } catch (error) {
+      log.debug(`Could not read ${slot.api_id} back after booking: ${error}`);
+    }
+
+    if (status === 'Signed up' || (status === null && refusal === null)) {
+      const result = refusal === 'already_booked' ? 'already_booked' : 'booked';
+      log.info(`  ✓ SUCCESS: ${RESULT_LABELS[result]} ${slot.activity_name} via API${status ? '' : ' (not verified)'}`);
+      slot.status = 'Signed up';
+      slot.is_available = false;
+      return { outcome: 'booked', result, message, verifiedBy: status ? 'api' : undefined };
+    }
+
+    const result = refusal ?? 'unknown_error';
+    log.info(`  ✗ FAILED: ${RESULT_LABELS[result]} - class shows "${status ?? 'unknown'}" after booking`);
+    return { outcome: 'failed', result, message: `${message} (class shows "${status ?? 'unknown'}")` };
+  }
+
+  /**
+   * Look up a target class occurrence through the API, even before its booking window opens
+   * @param club - Club to search (default: the API client's club)
+   */
+  async findSlotFromApi(target: TargetClass, at: Date, club?: Club): Promise<SlotInfo | null> {
+    if (!this.api) {
+      throw new Error('API client not configured');
+    }
+
+    const from = new Date(at.getTime() - 60 * 1000);
+    const to = new Date(at.getTime() + 60 * 1000);
+    const slots = await this.api.listSlots(from, to, club?.club_id);
+    const slot = slots.find(candidate =>
+      candidate.at.getTime() === at.getTime() && slotMatchesTarget(candidate, target));
+
+    if (slot) {
+      slot.club = club?.name;
+    }
+    return slot ?? null;
+  }
+
+  /**
+   * Book a slot through the API as soon as it opens, retrying while the class is not open yet or full
+   * Already booked, quota and credit refusals stop the attempts; a booking is read back before it counts
+   * @param attempts - Maximum number of booking requests
+   * @param intervalMs - Delay between requests
+   * @returns the number of requests sent, whether the slot was booked and the last result; rethrows fatal API errors
+   */
+  async bookAtOpening(
+    slot: SlotInfo,
+    attempts: number,
+    intervalMs: number
+  ): Promise<{ booked: boolean; attempts: number; result: BookingResultKind }> {
+    if (!this.api) {
+      throw new Error('API client not configured');
+    }
+
+    let lastMessage = '';
+    let lastRefusal: BookingRefusal | null = null;
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      let refusal: BookingRefusal | null = null;
+      try {
+        slot.attendee_id = await this.api.bookSlot(slot);
+        lastMessage = slot.attendee_id;
       } catch (error) {
-        console.log(`  ✗ FAILED: ${error}`);
-        failedCount++;
+        if (!(error instanceof ResamaniaApiError) || error.isFatal) {
+          throw error;
+        }
+        lastMessage = error.serverMessage;
+        refusal = bookingRefusal(lastMessage, this.uiLocale());
+        lastRefusal = refusal;
+
+        // Not open yet (no known refusal) or full: a place may still come up
+        if (refusal === null || refusal === 'full') {
+          log.debug(`Attempt ${attempt}/${attempts} refused (${error.status}): ${lastMessage}`);
+          if (attempt < attempts) {
+            await new Promise(resolve => setTimeout(resolve, intervalMs));
+          }
+          continue;
+        }
+
+        if (refusal !== 'already_booked') {
+          log.info(`  ✗ FAILED: ${RESULT_LABELS[refusal]} (${error.status}) ${lastMessage}`);
+          await this.recordOutcome(slot, 'failed', `${RESULT_LABELS[refusal]}: ${lastMessage}`, refusal);
+          return { booked: false, attempts: attempt, result: refusal };
+        }
       }
 
-      // Small delay between bookings
-      await page.waitForTimeout(1000);
+      const booking = await this.readBackApiBooking(slot, refusal, lastMessage);
+      await this.recordOutcome(slot, booking.outcome, attemptMessage(booking), booking.result);
+      return { booked: booking.outcome === 'booked', attempts: attempt, result: booking.result };
     }
 
+    const result = lastRefusal ?? 'unknown_error';
+    log.info(`  ✗ FAILED after ${attempts} attempts: ${RESULT_LABELS[result]} - ${lastMessage}`);
+    await this.recordOutcome(slot, 'failed', `${RESULT_LABELS[result]}: ${lastMessage}`, result);
+    return { booked: false, attempts, result };
+  }
+
+  /**
+   * Record a booking attempt in the history and notify about it
+   */
+  private async recordOutcome(slot: SlotInfo, outcome: AttemptOutcome, message?: string, result?: BookingResultKind): Promise<void> {
+    this.history?.recordAttempt(slot, outcome, message);
+    this.report?.recordAttempt(slot, outcome, message, result);
+
+    if (outcome === 'booked' || outcome === 'waitlisted') {
+      this.reservations.push(this.reservationOf(slot, outcome));
+    }
+
+    if (outcome === 'booked') {
+      await this.notifier?.notifySlot('success', slot);
+    } else if (outcome === 'failed') {
+      await this.notifier?.notifySlot('failure', slot, message);
+    } else if (outcome === 'waitlisted') {
+      await this.notifier?.notifySlot('waitlisted', slot, message);
+    } else if (outcome === 'promoted') {
+      await this.notifier?.notifySlot('promoted', slot);
+    }
+  }
+
+  /**
+   * Reservation held once a slot is booked or waitlisted
+   */
+  private reservationOf(slot: SlotInfo, status: Reservation['status']): Reservation {
     return {
-      bookedCount,
-      failedCount,
-      totalMatching: matchingSlots.length
+      id: slot.attendee_id,
+      activity_name: slot.activity_name,
+      date: slot.date,
+      time: slot.time,
+      at: slot.at,
+      day_of_week: slot.day_of_week,
+      duration_minutes: this.findMatch(slot)?.duration_minutes,
+      status,
+      source: slot.api_id ? 'api' : 'page',
     };
   }
 
-  private matchesTargetClass(slot: SlotInfo): boolean {
-    for (const target of this.targetClasses) {
-      if (!target.enabled) continue;
-
-      // Match day, time, and activity name
-      if (
-        target.day === slot.day_of_week &&
-        target.time === slot.time &&
-        slot.activity_name.toLowerCase().includes(target.activity.toLowerCase())
-      ) {
-        return true;
-      }
+  /**
+   * Check the booking history for a previously confirmed booking of this slot
+   * that the member still holds, when their current reservations are known
+   */
+  private isAlreadyConfirmed(slot: SlotInfo): boolean {
+    if (!this.history?.isConfirmed(slot)) {
+      return false;
     }
+    const key = slotKey(slot);
+    if (this.reservationsRead && !this.reservations.some(reservation => slotKey(reservation) === key)) {
+      log.info(`  ↺ ${slot.activity_name} ${slot.date} ${slot.time} was booked in a previous run but is no longer reserved - booking it again`);
+      return false;
+    }
+    this.skip(slot, 'already booked', 'in a previous run');
+    return true;
+  }
 
-    return false;
+  /**
+   * Check the booking history for a cancellation of this slot, which must not be rebooked
+   */
+  private wasCancelled(slot: SlotInfo): boolean {
+    if (!this.history?.isCancelled(slot)) {
+      return false;
+    }
+    this.skip(slot, 'cancelled', 'in a previous run');
+    return true;
+  }
+
+  private matchesTargetClass(slot: SlotInfo): boolean {
+    return this.findMatch(slot) !== null;
+  }
+
+  /**
+   * Find the enabled target class a slot matches, directly or as one of its alternatives
+   */
+  private findMatch(slot: SlotInfo): TargetMatch | null {
+    return findTargetMatch(slot, this.targetClasses);
+  }
+
+  private findTarget(slot: SlotInfo): TargetClass | null {
+    return this.findMatch(slot)?.target ?? null;
   }
 
   /**
@@ -287,23 +1214,60 @@ export class ResamaniaSlotBooker {
    */
   private meetsTimeConstraints(slot: SlotInfo): boolean {
     const slotDate = slot.at;
-    if (!slotDate) {
-      console.warn(`Skipping slot due to unparseable date: ${slot.date} ${slot.time}`);
-      return false;
-    }
-
     if (!checkTimeConstraints(slotDate, this.minHoursFromNow, this.maxDaysFromNow)) {
       const hours = hoursFromNow(slotDate);
       const days = daysFromNow(slotDate);
 
       if (hours < this.minHoursFromNow) {
-        console.log(`  ⊘ Skipping ${slot.activity_name} (${slot.day_of_week} ${slot.time}) - too soon (${hours.toFixed(1)}h < ${this.minHoursFromNow}h)`);
-      } else if (days > this.maxDaysFromNow) {
-        console.log(`  ⊘ Skipping ${slot.activity_name} (${slot.day_of_week} ${slot.time}) - too far (${days.toFixed(1)}d > ${this.maxDaysFromNow}d)`);
+        this.skip(slot, 'too soon', `${hours.toFixed(1)}h < ${this.minHoursFromNow}h`);
+      } else {
+        this.skip(slot, 'too far', `${days.toFixed(1)}d > ${this.maxDaysFromNow}d`);
       }
       return false;
     }
 
     return true;
   }
+
+  /**
+   * Log and report a slot dropped by the filters (unmatched slots only at debug level)
+   */
+  private skip(slot: SlotInfo, reason: FilterReason, detail?: string): void {
+    const message = `  ⊘ Skipping ${slot.activity_name} (${slot.day_of_week} ${slot.time}) - ${reason}${detail ? ` (${detail})` : ''}`;
+    const fields = { slot: slotKey(slot), reason, detail };
+    if (reason === 'not matching') {
+      log.debug(message, fields);
+    } else {
+      log.info(message, fields);
+    }
+    this.report?.recordSkipped(slot, reason, detail);
+  }
+}
+
+/**
+ * Booking detail of a slot, before or after its attempts
+ */
+function bookingDetail(
+  slot: SlotInfo,
+  outcome: SlotBookingDetail['outcome'],
+  fields: Partial<Omit<SlotBookingDetail, 'outcome'>> = {}
+): SlotBookingDetail {
+  return {
+    key: slotKey(slot),
+    activity: slot.activity_name,
+    date: slot.date,
+    time: slot.time,
+    club: slot.club,
+    outcome,
+    attempts: 0,
+    ...fields,
+  };
+}
+
+/**
+ * Message kept in the history and notifications: the server message, prefixed by the result when it failed
+ */
+function attemptMessage(attempt: BookingAttempt): string | undefined {
+  if (attempt.outcome !== 'failed') return attempt.message;
+  return attempt.message ? `${RESULT_LABELS[attempt.result]}: ${attempt.message}` : RESULT_LABELS[attempt.result];
 }
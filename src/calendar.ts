@@ -0,0 +1,111 @@
+/**
+ * Calendar Export - iCalendar feed of the classes booked through the history journal
+ * Event UIDs derive from the profile and class (activity, date and time), so calendar apps
+ * subscribed to the feed update waitlisted classes once booked and drop cancelled ones instead of
+ * duplicating them; a class moved to another time is a different class with its own event
+ */
+
+import { createHash } from 'crypto';
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { TargetClass } from './booker.js';
+import type { Config } from './config.js';
+import { BookingHistory, type BookingState } from './history.js';
+import { findTargetMatch } from './matching.js';
+import { DEFAULT_DURATION_MINUTES } from './reservations.js';
+import { DEFAULT_CLUB, resolveClubs } from './clubs.js';
+import { DEFAULT_PROFILE, resolveProfile } from './profiles.js';
+import { formatIcalendar, type IcalEvent } from './ical.js';
+import { dayOfWeek, relativePath } from './utils.js';
+import { now } from './clock.js';
+
+export interface CalendarConfig {
+  file?: string;                       // .ics written after each run, relative to the project root
+  name?: string;                       // Calendar name shown by calendar apps
+  locations?: Record<string, string>;  // club name -> address used as event location
+  past_days?: number;                  // Keep classes that started up to this many days ago
+}
+
+export const DEFAULT_CALENDAR_FILE = './data/bookings.ics';
+
+const DEFAULT_PAST_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Calendar event of a booked, waitlisted or cancelled class
+ * @param profile - Profile name, part of the UID so several profiles can share a calendar
+ */
+export function bookingEvent(
+  state: BookingState,
+  profile: string,
+  targets: TargetClass[],
+  config: CalendarConfig = {}
+): IcalEvent & { uid: string } {
+  const start = new Date(state.at);
+  const match = findTargetMatch({
+    activity_name: state.activity,
+    time: state.time,
+    day_of_week: dayOfWeek(start),
+    club: state.club,
+  }, targets);
+  const duration = match?.duration_minutes ?? DEFAULT_DURATION_MINUTES;
+
+  const club = state.club && state.club !== DEFAULT_CLUB ? state.club : undefined;
+  const location = (state.club && config.locations?.[state.club]) || club;
+
+  return {
+    uid: `${createHash('sha1').update(`${profile}|${state.key}`).digest('hex').slice(0, 16)}@resamania-booker`,
+    summary: state.status === 'waitlisted' ? `${state.activity} (waiting list)` : state.activity,
+    start,
+    end: new Date(start.getTime() + duration * 60 * 1000),
+    location,
+    description: club ? `Club: ${club}` : undefined,
+    status: state.status === 'booked' ? 'CONFIRMED' : state.status === 'waitlisted' ? 'TENTATIVE' : 'CANCELLED',
+    sequence: state.sequence,
+    updated: new Date(state.updated_at),
+  };
+}
+
+/**
+ * Render the booking calendar of a profile
+ * Cancelled classes stay in the feed (as CANCELLED) so subscribers remove them
+ */
+export function renderBookingCalendar(
+  history: BookingHistory,
+  profile: string,
+  targets: TargetClass[],
+  config: CalendarConfig = {}
+): { text: string; events: number } {
+  const since = now().getTime() - (config.past_days ?? DEFAULT_PAST_DAYS) * DAY_MS;
+  const events = history.bookingStates()
+    .filter(state => new Date(state.at).getTime() >= since)
+    .map(state => bookingEvent(state, profile, targets, config))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const name = config.name ?? (profile === DEFAULT_PROFILE ? 'Resamania bookings' : `Resamania bookings (${profile})`);
+  return { text: formatIcalendar(name, events), events: events.length };
+}
+
+/**
+ * Render the booking calendar of a profile straight from its history file,
+ * without the credentials or login a booker needs
+ * @param profileName - Profile whose history to read (default: the first or default profile)
+ */
+export function renderProfileCalendar(config: Config, profileName?: string): { text: string; events: number } {
+  const profile = resolveProfile(config, profileName);
+  const history = new BookingHistory(profile.historyFile ? relativePath(profile.historyFile) : undefined);
+
+  // Targets without a club belong to the default club, as when booking
+  const defaultClub = resolveClubs(profile.config.resamania)[0].name;
+  const targets = (profile.config.target_classes || []).map(target => ({ ...target, club: target.club ?? defaultClub }));
+
+  return renderBookingCalendar(history, profile.name, targets, profile.config.calendar);
+}
+
+/**
+ * Write a rendered calendar, creating its directory
+ */
+export function writeCalendarFile(path: string, text: string): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, text);
+}
@@ -0,0 +1,367 @@
+/**
+ * Command line interface
+ * Usage: resamania <command> [options]
+ */
+
+import { parseArgs } from 'util';
+import { resolve } from 'path';
+import { ResamaniaBooker, runAllProfiles } from './main.js';
+import { slotToJson, type SlotInfo } from './booker.js';
+import { formatReconciliationReport, type Reservation } from './reservations.js';
+import { DEFAULT_CONFIG_PATH, checkConfig, formatConfigIssues, loadConfig, type ConfigIssue } from './config.js';
+import { formatNextRuns, nextRuns, resolveSchedules } from './schedules.js';
+import { resolveProfile } from './profiles.js';
+import { setLogOutput } from './logger.js';
+
+const USAGE = `Usage: resamania <command> [options] [--profile NAME]
+
+Commands:
+  run [--retries N]                    Book target classes, retrying until something is booked (default)
+                                       Runs every profile unless --profile is given
+  snipe [--json]                       Book target classes at the exact second their booking window opens
+  watch [--polls N] [--json]           Poll the planning and report freed places, added and cancelled classes
+                                       (--json prints one event per line); books target classes on changes
+  list [--json]                        List every slot of the planning of every club
+  book [--dry-run] [--json]            Single booking pass for the target classes
+  book --class NAME [--date D] [--time HH:MM] [--dry-run]
+                                       One-off booking of a class, ignoring target classes
+  status [--json]                      Show current reservations and compare them with target classes
+  login                                Force a fresh login and save the session
+  cancel NAME [DATE] [TIME]            Cancel a booking
+  confirm NAME DATE [TIME]             Confirm attendance so auto-cancel keeps the booking
+  calendar [FILE] [--json]             Export booked classes as an iCalendar (.ics) file
+  profiles [--json]                    List configured profiles
+  config check [PATH] [--json]         Validate config.json (or PATH) and the profiles' credentials
+  next-runs [--count N] [--json]       Preview the scheduler's next runs
+  help                                 Show this help
+
+Options:
+  --profile NAME                       Account profile to use (default: first profile)`;
+
+/**
+ * Render slots as an aligned text table
+ */
+export function formatSlotTable(slots: SlotInfo[]): string {
+  if (slots.length === 0) {
+    return '(no slots)';
+  }
+
+  // Only show the club column when slots come from several clubs
+  const clubs = new Set(slots.map(slot => slot.club));
+  if (clubs.size > 1) {
+    return formatTable(['Club', 'Day', 'Date', 'Time', 'Activity', 'Status', 'Places', 'Bookable'], slots.map(slot => [
+      slot.club ?? '',
+      slot.day_of_week,
+      slot.date,
+      slot.time,
+      slot.activity_name,
+      slot.status,
+      formatPlaces(slot),
+      slot.is_available ? 'yes' : 'no',
+    ]));
+  }
+
+  return formatTable(['Day', 'Date', 'Time', 'Activity', 'Status', 'Places', 'Bookable'], slots.map(slot => [
+    slot.day_of_week,
+    slot.date,
+    slot.time,
+    slot.activity_name,
+    slot.status,
+    formatPlaces(slot),
+    slot.is_available ? 'yes' : 'no',
+  ]));
+}
+
+/**
+ * Remaining places over capacity, e.g. "3/20", empty when the planning does not show them
+ */
+function formatPlaces(slot: SlotInfo): string {
+  if (slot.remaining_places === undefined) return '';
+  return slot.capacity === undefined ? String(slot.remaining_places) : `${slot.remaining_places}/${slot.capacity}`;
+}
+
+/**
+ * Render reservations as an aligned text table
+ */
+export function formatReservationTable(reservations: Reservation[]): string {
+  if (reservations.length === 0) {
+    return '(no reservations)';
+  }
+
+  return formatTable(['Day', 'Date', 'Time', 'Activity', 'Status'], reservations.map(reservation => [
+    reservation.day_of_week,
+    reservation.date,
+    reservation.time,
+    reservation.activity_name,
+    reservation.status,
+  ]));
+}
+
+function formatTable(header: string[], rows: string[][]): string {
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map(row => row[i].length)));
+  const formatRow = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+
+  return [
+    formatRow(header),
+    widths.map(width => '-'.repeat(width)).join('  '),
+    ...rows.map(formatRow),
+  ].join('\n');
+}
+
+function printSlots(slots: SlotInfo[], json: boolean): void {
+  if (json) {
+    process.stdout.write(JSON.stringify(slots.map(slotToJson), null, 2) + '\n');
+  } else {
+    console.log('\n' + formatSlotTable(slots));
+  }
+}
+
+/**
+ * Validate a config file and the credentials its profiles reference
+ * @returns process exit code
+ */
+function runConfigCheck(configPath: string, json: boolean): number {
+  const { config, errors, warnings } = checkConfig(configPath);
+  const credentialWarnings: ConfigIssue[] = [];
+
+  if (config) {
+    for (const [i, profile] of (config.profiles?.length ? config.profiles : [undefined]).entries()) {
+      const resolved = resolveProfile(config, profile?.name);
+      for (const name of [resolved.usernameEnv, resolved.passwordEnv]) {
+        if (!process.env[name]) {
+          credentialWarnings.push({ path: profile ? `profiles[${i}]` : '(env)', message: `${name} is not set` });
+        }
+      }
+    }
+  }
+
+  const allWarnings = [...warnings, ...credentialWarnings];
+  if (json) {
+    process.stdout.write(JSON.stringify({ path: configPath, valid: errors.length === 0, errors, warnings: allWarnings }, null, 2) + '\n');
+  } else {
+    if (errors.length === 0) {
+      console.log(`✓ Config is valid: ${configPath}`);
+    } else {
+      console.log(`✗ Config has ${errors.length} error(s): ${configPath}\n${formatConfigIssues(errors)}`);
+    }
+    if (allWarnings.length > 0) {
+      console.log(`⚠ ${allWarnings.length} warning(s):\n${formatConfigIssues(allWarnings)}`);
+    }
+  }
+
+  return errors.length === 0 ? 0 : 1;
+}
+
+/**
+ * Run a CLI command
+ * @param argv - Arguments without the node binary and script path
+ * @returns process exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      json: { type: 'boolean', default: false },
+      'dry-run': { type: 'boolean', default: false },
+      class: { type: 'string' },
+      date: { type: 'string' },
+      time: { type: 'string' },
+      retries: { type: 'string' },
+      count: { type: 'string' },
+      polls: { type: 'string' },
+      profile: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const [command = 'run', ...args] = positionals;
+
+  if (values.help || command === 'help') {
+    console.log(USAGE);
+    return 0;
+  }
+
+  // Keep stdout clean for JSON output: progress logs go to stderr
+  if (values.json) {
+    setLogOutput('stderr');
+  }
+
+  const booker = () => new ResamaniaBooker(undefined, values.profile);
+
+  switch (command) {
+    case 'run': {
+      const retries = values.retries !== undefined ? Number(values.retries) : undefined;
+      if (retries !== undefined && (!Number.isInteger(retries) || retries < 1)) {
+        console.error(`Invalid --retries: ${values.retries}`);
+        return 1;
+      }
+      const results = values.profile
+        ? [await booker().run(retries)]
+        : await runAllProfiles(retries);
+      return results.every(result => result.success) ? 0 : 1;
+    }
+
+    case 'snipe': {
+      const result = await booker().snipe();
+      if (values.json) {
+        process.stdout.write(JSON.stringify(result, null, 2) + '\n');
+      }
+      return result.success && result.snipes!.every(outcome => outcome.booked) ? 0 : 1;
+    }
+
+    case 'watch': {
+      const polls = values.polls !== undefined ? Number(values.polls) : undefined;
+      if (polls !== undefined && (!Number.isInteger(polls) || polls < 1)) {
+        console.error(`Invalid --polls: ${values.polls}`);
+        return 1;
+      }
+
+      // Ctrl+C ends the watch after the current poll, closing the session and printing the summary
+      const controller = new AbortController();
+      const stop = () => controller.abort();
+      process.once('SIGINT', stop);
+      process.once('SIGTERM', stop);
+      try {
+        const result = await booker().watch({
+          maxPolls: polls,
+          signal: controller.signal,
+          onEvent: values.json ? event => process.stdout.write(JSON.stringify(event) + '\n') : undefined,
+        });
+        return result.success ? 0 : 1;
+      } finally {
+        process.off('SIGINT', stop);
+        process.off('SIGTERM', stop);
+      }
+    }
+
+    case 'config':
+      if (args[0] !== 'check') {
+        console.error('Usage: config check [PATH]');
+        return 1;
+      }
+      return runConfigCheck(args[1] ?? DEFAULT_CONFIG_PATH, values.json);
+
+    case 'next-runs': {
+      const count = values.count !== undefined ? Number(values.count) : 10;
+      if (!Number.isInteger(count) || count < 1) {
+        console.error(`Invalid --count: ${values.count}`);
+        return 1;
+      }
+
+      const schedules = resolveSchedules(loadConfig());
+      const runs = nextRuns(schedules, new Date(), count);
+      if (values.json) {
+        process.stdout.write(JSON.stringify(runs, null, 2) + '\n');
+      } else {
+        console.log(formatNextRuns(runs, schedules));
+      }
+      return 0;
+    }
+
+    case 'profiles':
+      if (values.json) {
+        process.stdout.write(JSON.stringify(ResamaniaBooker.profileNames(), null, 2) + '\n');
+      } else {
+        for (const name of ResamaniaBooker.profileNames()) {
+          console.log(name);
+        }
+      }
+      return 0;
+
+    case 'list': {
+      const slots = await booker().list();
+      printSlots(slots, values.json);
+      return 0;
+    }
+
+    case 'status': {
+      const status = await booker().status();
+      if (!status) return 1;
+
+      if (values.json) {
+        process.stdout.write(JSON.stringify(status, null, 2) + '\n');
+      } else {
+        console.log('\n' + formatReservationTable(status.reservations));
+        console.log('\n' + formatReconciliationReport(status.report));
+      }
+      return 0;
+    }
+
+    case 'book': {
+      const dryRun = values['dry-run'];
+      const outcome = await booker().book({
+        dryRun,
+        activity: values.class,
+        date: values.date,
+        time: values.time,
+      });
+      if (!outcome) return 1;
+
+      if (dryRun) {
+        if (!values.json) {
+          console.log(`\nDry run - would book ${outcome.selected.filter(slot => slot.is_available).length} slot(s):`);
+        }
+        printSlots(outcome.selected, values.json);
+        return 0;
+      }
+
+      if (values.json) {
+        process.stdout.write(JSON.stringify({ selected: outcome.selected.map(slotToJson), result: outcome.result }, null, 2) + '\n');
+      } else if (outcome.result) {
+        console.log('');
+        for (const detail of outcome.result.slots) {
+          const result = detail.result && detail.result !== detail.outcome ? ` (${detail.result})` : '';
+          const message = detail.message ? ` - ${detail.message}` : '';
+          console.log(`  ${detail.outcome}${result}: ${detail.activity} ${detail.date} ${detail.time}${message}`);
+        }
+        console.log(`\nBooked: ${outcome.result.bookedCount}, failed: ${outcome.result.failedCount}, waitlisted: ${outcome.result.waitlistedCount}`);
+      } else {
+        console.log('\nNothing to book');
+      }
+      return outcome.result && outcome.result.failedCount > 0 ? 1 : 0;
+    }
+
+    case 'login':
+      return await booker().login() ? 0 : 1;
+
+    case 'cancel':
+      if (!args[0]) {
+        console.error('Usage: cancel NAME [DATE] [TIME]');
+        return 1;
+      }
+      return await booker().cancel(args[0], args[1], args[2]) ? 0 : 1;
+
+    case 'confirm':
+      if (!args[0] || !args[1]) {
+        console.error('Usage: confirm NAME DATE [TIME]');
+        return 1;
+      }
+      return booker().confirm(args[0], args[1], args[2]) ? 0 : 1;
+
+    case 'calendar': {
+      const { path, events } = booker().writeCalendar(args[0] ? resolve(args[0]) : undefined);
+      if (values.json) {
+        process.stdout.write(JSON.stringify({ path, events }, null, 2) + '\n');
+      } else {
+        console.log(`✓ ${events} event(s) written to ${path}`);
+      }
+      return 0;
+    }
+
+    default:
+      console.error(`Unknown command: ${command}\n`);
+      console.error(USAGE);
+      return 1;
+  }
+}
+
+// CLI entry point
+if (import.meta.url === `file://${process.argv[1]}`) {
+  runCli(process.argv.slice(2))
+    .then(exitCode => process.exit(exitCode))
+    .catch(error => {
+      console.error(`Fatal error: ${error}`);
+      process.exit(1);
+    });
+}
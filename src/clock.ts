@@ -0,0 +1,81 @@
+/**
+ * Clock - Source of the current time for date parsing and booking windows
+ * Replaceable with setClock() (or the CLOCK_START env var) to run against a fixed planning,
+ * e.g. the fake Resamania server, at any date
+ */
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+/**
+ * Clock standing still until moved by hand
+ */
+export class FixedClock implements Clock {
+  private time: number;
+
+  constructor(start: Date) {
+    this.time = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.time);
+  }
+
+  set(date: Date): void {
+    this.time = date.getTime();
+  }
+
+  advance(ms: number): void {
+    this.time += ms;
+  }
+}
+
+/**
+ * Clock starting at a given time and running at normal speed from there
+ */
+export class OffsetClock implements Clock {
+  private offset: number;
+
+  constructor(start: Date) {
+    this.offset = start.getTime() - Date.now();
+  }
+
+  now(): Date {
+    return new Date(Date.now() + this.offset);
+  }
+}
+
+let current: Clock | null = null;
+
+/**
+ * Replace the clock used by now(); without argument, go back to the system clock
+ */
+export function setClock(clock: Clock = systemClock): void {
+  current = clock;
+}
+
+/**
+ * Current clock: the one set with setClock(), else an OffsetClock when CLOCK_START is set
+ */
+export function getClock(): Clock {
+  if (!current) {
+    const start = process.env.CLOCK_START ? new Date(process.env.CLOCK_START) : null;
+    if (start && Number.isNaN(start.getTime())) {
+      throw new Error(`Invalid CLOCK_START: ${process.env.CLOCK_START}`);
+    }
+    current = start ? new OffsetClock(start) : systemClock;
+  }
+  return current;
+}
+
+/**
+ * Current time according to the current clock
+ */
+export function now(): Date {
+  return getClock().now();
+}
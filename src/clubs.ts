@@ -0,0 +1,107 @@
+/**
+ * Clubs - Brand and club resolution for the Resamania member area
+ * Derives login and planning URLs from the brand slug, so one config can cover several clubs of a chain
+ */
+
+import type { TargetClass } from './booker.js';
+
+export interface ResamaniaConfig {
+  brand?: string;        // e.g. "fitnesstraining" (default: taken from club_id)
+  client_id?: string;    // OAuth client id of the member app
+  base_url?: string;     // default https://member.resamania.com
+  api_url?: string;      // default https://api.resamania.com
+  login_url?: string;    // default derived from brand + client_id
+  planning_url?: string; // planning of the default club (default derived from brand + club_id)
+  bookings_url?: string;
+  club_id?: string;      // IRI of the default club, e.g. "/fitnesstraining/clubs/528"
+  clubs?: Record<string, string>;  // club name -> club IRI
+}
+
+export interface Club {
+  name: string;
+  club_id?: string;
+  planning_url: string;
+}
+
+export const DEFAULT_CLUB = 'default';
+
+const DEFAULT_BASE_URL = 'https://member.resamania.com';
+const DEFAULT_API_URL = 'https://api.resamania.com';
+
+/**
+ * Brand slug of the chain, from config or from the default club IRI
+ */
+export function resolveBrand(resamania: ResamaniaConfig): string {
+  const brand = resamania.brand ?? resamania.club_id?.split('/').filter(Boolean)[0];
+  if (!brand) {
+    throw new Error('resamania.brand (or resamania.club_id) must be set in config');
+  }
+  return brand;
+}
+
+/**
+ * OAuth login URL: configured explicitly, or derived from the brand slug and client id
+ */
+export function resolveLoginUrl(resamania: ResamaniaConfig): string {
+  if (resamania.login_url) {
+    return resamania.login_url;
+  }
+  if (!resamania.client_id) {
+    throw new Error('resamania.client_id (or resamania.login_url) must be set in config');
+  }
+
+  const apiUrl = (resamania.api_url ?? DEFAULT_API_URL).replace(/\/$/, '');
+  const baseUrl = (resamania.base_url ?? DEFAULT_BASE_URL).replace(/\/$/, '');
+  const params = new URLSearchParams({
+    client_id: resamania.client_id,
+    redirect_uri: `${baseUrl}/`,
+    response_type: 'code',
+  });
+  return `${apiUrl}/oauth/login/${resolveBrand(resamania)}?${params}`;
+}
+
+/**
+ * Planning URL of a club, filtered on the club through the `club` query parameter
+ */
+export function planningUrlForClub(resamania: ResamaniaConfig, clubId?: string): string {
+  const baseUrl = (resamania.base_url ?? DEFAULT_BASE_URL).replace(/\/$/, '');
+  const url = `${baseUrl}/${resolveBrand(resamania)}/planning`;
+  return clubId ? `${url}?club=${encodeURIComponent(clubId)}` : url;
+}
+
+/**
+ * All configured clubs, the default club first
+ */
+export function resolveClubs(resamania: ResamaniaConfig): Club[] {
+  const named = Object.entries(resamania.clubs ?? {});
+
+  // The default club keeps its name when it is also listed under `clubs`
+  const defaultName = named.find(([, clubId]) => clubId === resamania.club_id)?.[0] ?? DEFAULT_CLUB;
+  const defaultClub: Club = {
+    name: defaultName,
+    club_id: resamania.club_id,
+    planning_url: resamania.planning_url ?? planningUrlForClub(resamania, resamania.club_id),
+  };
+
+  const others = named
+    .filter(([name]) => name !== defaultName)
+    .map(([name, clubId]) => ({ name, club_id: clubId, planning_url: planningUrlForClub(resamania, clubId) }));
+
+  return [defaultClub, ...others];
+}
+
+/**
+ * Clubs referenced by enabled target classes (targets without a club use the default club)
+ */
+export function clubsForTargets(clubs: Club[], targets: TargetClass[]): Club[] {
+  const names = new Set(targets.filter(target => target.enabled).map(target => target.club ?? clubs[0].name));
+
+  for (const name of names) {
+    if (!clubs.some(club => club.name === name)) {
+      throw new Error(`Target class references unknown club "${name}" (known: ${clubs.map(club => club.name).join(', ')})`);
+    }
+  }
+
+  const referenced = clubs.filter(club => names.has(club.name));
+  return referenced.length > 0 ? referenced : [clubs[0]];
+}
@@ -0,0 +1,653 @@
+/**
+ * Configuration - Typed config.json loading with schema validation, defaults and env var overrides
+ * Every entry point reads the config through loadConfig(), so errors are reported the same way everywhere
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import * as dotenv from 'dotenv';
+import type { TargetClass } from './booker.js';
+import type { ClassCriteria } from './matching.js';
+import type { NotificationSettings } from './notifier.js';
+import { mergeBookingSettings, type ProfileConfig } from './profiles.js';
+import type { SniperSettings } from './sniper.js';
+import type { WatcherSettings } from './watcher.js';
+import type { BookingPolicyConfig } from './policy.js';
+import type { CalendarConfig } from './calendar.js';
+import type { DiagnosticsConfig } from './diagnostics.js';
+import type { LocaleSetting } from './locale.js';
+import { SchedulerConfig, cronError, isValidTimezone } from './schedules.js';
+import { ResamaniaConfig, resolveClubs, resolveLoginUrl } from './clubs.js';
+import { log } from './logger.js';
+import { relativePath } from './utils.js';
+
+// Load environment variables (CONFIG_PATH and overrides)
+dotenv.config();
+
+export interface RunLoopSettings {
+  attempts?: number;          // Attempts of a manual run (default 15)
+  daily_attempts?: number;    // Attempts of schedules in daily mode (default 45)
+  hourly_attempts?: number;   // Attempts of schedules in hourly mode (default 1)
+  interval_seconds?: number;  // Delay between attempts (default 1)
+}
+
+export const RUN_SCHEDULES = ['manual', 'daily', 'hourly'] as const;
+
+export type RunSchedule = typeof RUN_SCHEDULES[number];
+
+export const DEFAULT_RETRY_ATTEMPTS = 3;
+
+export const RUN_LOOP_DEFAULTS: Required<RunLoopSettings> = {
+  attempts: 15,
+  daily_attempts: 45,
+  hourly_attempts: 1,
+  interval_seconds: 1,
+};
+
+export interface BookingSettingsConfig {
+  headless: boolean;
+  slow_mo: number;
+  use_api?: boolean;
+  min_hours_from_now?: number;
+  max_days_from_now?: number;
+  max_advance_days?: number;  // Deprecated alias of max_days_from_now
+  auto_book?: boolean;            // false: report matching slots without booking
+  retry_on_failure?: boolean;     // Retry a slot whose booking failed
+  retry_attempts?: number;        // Retries per slot when retry_on_failure is on (default 3)
+  retry_delay_seconds?: number;   // Delay before the first retry, doubled after each one
+  locale?: LocaleSetting;         // Language of the member area (default "auto": detected from the page)
+  run_loop?: RunLoopSettings;
+  sniper?: SniperSettings;
+  watcher?: WatcherSettings;
+  policy?: BookingPolicyConfig;
+}
+
+export interface Config {
+  resamania: ResamaniaConfig;
+  target_classes: TargetClass[];
+  booking_settings: BookingSettingsConfig;
+  notification_settings?: NotificationSettings;
+  profiles?: ProfileConfig[];
+  parallel_profiles?: boolean;
+  scheduler?: SchedulerConfig;
+  calendar?: CalendarConfig;
+  diagnostics?: DiagnosticsConfig;
+  username?: string;
+  password?: string;
+}
+
+export interface ConfigIssue {
+  path: string;  // e.g. "target_classes[2].time"
+  message: string;
+}
+
+export interface ConfigCheck {
+  config: Config | null;  // null when there are errors
+  errors: ConfigIssue[];
+  warnings: ConfigIssue[];
+}
+
+export class ConfigError extends Error {
+  constructor(public readonly configPath: string, public readonly errors: ConfigIssue[]) {
+    super(`Invalid config ${configPath}:\n${formatConfigIssues(errors)}`);
+    this.name = 'ConfigError';
+  }
+}
+
+export const DEFAULT_CONFIG_PATH = process.env.CONFIG_PATH || relativePath('./config.json');
+
+/**
+ * Field description: its type, constraints and default
+ */
+interface Schema {
+  type: 'string' | 'number' | 'boolean' | 'object' | 'array' | 'record';
+  required?: boolean;
+  default?: unknown;
+  integer?: boolean;
+  min?: number;
+  oneOf?: readonly string[];
+  pattern?: RegExp;
+  hint?: string;                   // Expected format, shown when the pattern does not match
+  url?: boolean;
+  deprecated?: string;             // Warning shown when the key is used
+  fields?: Record<string, Schema>; // object
+  items?: Schema;                  // array
+  values?: Schema;                 // record
+}
+
+const DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'] as const;
+
+const DATE_SCHEMA: Schema = { type: 'string', pattern: /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/, hint: 'YYYY-MM-DD' };
+
+const TIME_SCHEMA: Schema = { type: 'string', pattern: /^([01]\d|2[0-3]):[0-5]\d$/, hint: 'HH:MM' };
+
+const CLASS_CRITERIA_FIELDS: Record<string, Schema> = {
+  activity: { type: 'string', required: true, pattern: /\S/, hint: 'a class name' },
+  activity_match: { type: 'string', oneOf: ['contains', 'exact', 'regex'] },
+  time: TIME_SCHEMA,
+  time_window: {
+    type: 'object',
+    fields: {
+      from: { ...TIME_SCHEMA, required: true },
+      to: { ...TIME_SCHEMA, required: true },
+    },
+  },
+  coach: { type: 'string' },
+};
+
+const TARGET_CLASS_SCHEMA: Schema = {
+  type: 'object',
+  fields: {
+    ...CLASS_CRITERIA_FIELDS,
+    club: { type: 'string' },
+    day: { type: 'string', required: true, oneOf: DAYS },
+    time: { ...TIME_SCHEMA, required: true },
+    duration_minutes: { type: 'number', integer: true, min: 1, default: 60 },
+    priority: { type: 'number', integer: true },
+    alternatives: {
+      type: 'array',
+      items: {
+        type: 'object',
+        fields: {
+          ...CLASS_CRITERIA_FIELDS,
+          duration_minutes: { type: 'number', integer: true, min: 1 },
+        },
+      },
+    },
+    enabled: { type: 'boolean', default: true },
+    join_waitlist: { type: 'boolean' },
+    auto_cancel_hours_before: { type: 'number', min: 0 },
+  },
+};
+
+const BOOKING_SETTINGS_SCHEMA: Schema = {
+  type: 'object',
+  default: {},
+  fields: {
+    headless: { type: 'boolean', default: true },
+    slow_mo: { type: 'number', integer: true, min: 0, default: 100 },
+    use_api: { type: 'boolean', default: true },
+    min_hours_from_now: { type: 'number', min: 0, default: 6 },
+    max_days_from_now: { type: 'number', min: 0, default: 4 },
+    max_advance_days: { type: 'number', min: 0, deprecated: 'use max_days_from_now' },
+    auto_book: { type: 'boolean', default: true },
+    retry_on_failure: { type: 'boolean', default: false },
+    retry_attempts: { type: 'number', integer: true, min: 0 },
+    retry_delay_seconds: { type: 'number', min: 0, default: 5 },
+    locale: { type: 'string', oneOf: ['auto', 'en', 'fr'], default: 'auto' },
+    run_loop: {
+      type: 'object',
+      fields: {
+        attempts: { type: 'number', integer: true, min: 1 },
+        daily_attempts: { type: 'number', integer: true, min: 1 },
+        hourly_attempts: { type: 'number', integer: true, min: 1 },
+        interval_seconds: { type: 'number', min: 0 },
+      },
+    },
+    sniper: {
+      type: 'object',
+      fields: {
+        enabled: { type: 'boolean', default: false },
+        horizon_minutes: { type: 'number', min: 1 },
+        retry_interval_ms: { type: 'number', integer: true, min: 0 },
+        max_attempts: { type: 'number', integer: true, min: 1 },
+      },
+    },
+    watcher: {
+      type: 'object',
+      fields: {
+        interval_seconds: { type: 'number', min: 1 },
+        jitter_seconds: { type: 'number', min: 0 },
+        low_places: { type: 'number', integer: true, min: 0 },
+        targets_only: { type: 'boolean' },
+        auto_book: { type: 'boolean' },
+        max_polls: { type: 'number', integer: true, min: 0 },
+      },
+    },
+    policy: {
+      type: 'object',
+      fields: {
+        max_per_week: { type: 'number', integer: true, min: 0 },
+        max_per_day: { type: 'number', integer: true, min: 0 },
+        min_rest_hours: { type: 'number', min: 0 },
+        allow_overlap: { type: 'boolean' },
+        blackouts: {
+          type: 'array',
+          items: {
+            type: 'object',
+            fields: {
+              from: { ...DATE_SCHEMA, required: true },
+              to: DATE_SCHEMA,
+              reason: { type: 'string' },
+            },
+          },
+        },
+        blackout_calendar: { type: 'string', pattern: /\S/, hint: 'an .ics file path or URL' },
+      },
+    },
+  },
+};
+
+const CONFIG_SCHEMA: Schema = {
+  type: 'object',
+  fields: {
+    resamania: {
+      type: 'object',
+      required: true,
+      fields: {
+        brand: { type: 'string', pattern: /^[a-z0-9_-]+$/i, hint: 'a brand slug such as "fitnesstraining"' },
+        client_id: { type: 'string' },
+        base_url: { type: 'string', url: true },
+        api_url: { type: 'string', url: true },
+        login_url: { type: 'string', url: true },
+        planning_url: { type: 'string', url: true },
+        bookings_url: { type: 'string', url: true },
+        club_id: { type: 'string', pattern: /^\/[^/]+\/clubs\/[^/]+$/, hint: '"/<brand>/clubs/<id>"' },
+        clubs: { type: 'record', values: { type: 'string', pattern: /^\/[^/]+\/clubs\/[^/]+$/, hint: '"/<brand>/clubs/<id>"' } },
+      },
+    },
+    target_classes: { type: 'array', required: true, items: TARGET_CLASS_SCHEMA },
+    booking_settings: BOOKING_SETTINGS_SCHEMA,
+    notification_settings: {
+      type: 'object',
+      fields: {
+        notify_on_success: { type: 'boolean' },
+        notify_on_failure: { type: 'boolean' },
+        notify_on_slot_found: { type: 'boolean' },
+        notify_on_waitlist: { type: 'boolean' },
+        notify_on_watch: { type: 'boolean' },
+      },
+    },
+    profiles: {
+      type: 'array',
+      items: {
+        type: 'object',
+        fields: {
+          name: { type: 'string', required: true, pattern: /^[A-Za-z0-9_-]+$/, hint: 'letters, digits, "-" or "_"' },
+          username_env: { type: 'string' },
+          password_env: { type: 'string' },
+          session_file: { type: 'string' },
+          history_file: { type: 'string' },
+          calendar_file: { type: 'string' },
+          target_classes: { type: 'array', items: TARGET_CLASS_SCHEMA },
+          // Merged over the top-level settings, so no defaults here
+          booking_settings: withoutDefaults(BOOKING_SETTINGS_SCHEMA),
+        },
+      },
+    },
+    parallel_profiles: { type: 'boolean', default: false },
+    calendar: {
+      type: 'object',
+      fields: {
+        file: { type: 'string' },
+        name: { type: 'string' },
+        locations: { type: 'record', values: { type: 'string' } },
+        past_days: { type: 'number', integer: true, min: 0 },
+      },
+    },
+    diagnostics: {
+      type: 'object',
+      fields: {
+        enabled: { type: 'boolean' },
+        dir: { type: 'string' },
+        trace: { type: 'boolean' },
+        max_bundles: { type: 'number', integer: true, min: 0 },
+        max_age_days: { type: 'number', min: 0 },
+      },
+    },
+    scheduler: {
+      type: 'object',
+      fields: {
+        run_on_start: { type: 'boolean', default: true },
+        lock_file: { type: 'string', default: './data/scheduler.lock' },
+        schedules: {
+          type: 'array',
+          items: {
+            type: 'object',
+            fields: {
+              name: { type: 'string', required: true, pattern: /\S/, hint: 'a schedule name' },
+              cron: { type: 'string', required: true },
+              timezone: { type: 'string' },
+              mode: { type: 'string', oneOf: RUN_SCHEDULES, default: 'hourly' },
+              attempts: { type: 'number', integer: true, min: 1 },
+              snipe: { type: 'boolean', default: false },
+              auto_cancel: { type: 'boolean', default: false },
+              profiles: { type: 'array', items: { type: 'string' } },
+              targets: { type: 'array', items: { type: 'string' } },
+              enabled: { type: 'boolean', default: true },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Environment variables overriding config keys
+ */
+const ENV_OVERRIDES: Record<string, string> = {
+  HEADLESS_BROWSER: 'booking_settings.headless',
+  SLOW_MO: 'booking_settings.slow_mo',
+  USE_API: 'booking_settings.use_api',
+  MIN_HOURS_FROM_NOW: 'booking_settings.min_hours_from_now',
+  MAX_DAYS_FROM_NOW: 'booking_settings.max_days_from_now',
+  RESAMANIA_LOCALE: 'booking_settings.locale',
+  RESAMANIA_API_URL: 'resamania.api_url',
+  RESAMANIA_CLUB_ID: 'resamania.club_id',
+};
+
+function withoutDefaults(schema: Schema): Schema {
+  const { default: _default, ...rest } = schema;
+  return {
+    ...rest,
+    fields: rest.fields && Object.fromEntries(
+      Object.entries(rest.fields).map(([key, field]) => [key, withoutDefaults(field)])),
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  return Array.isArray(value) ? 'an array' : value === null ? 'null' : `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Check a value against its schema
+ * @returns the value with defaults filled in
+ */
+function validate(value: unknown, schema: Schema, path: string, errors: ConfigIssue[], warnings: ConfigIssue[]): unknown {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        errors.push({ path, message: `expected a string, got ${describe(value)}` });
+      } else if (schema.oneOf && !schema.oneOf.includes(value)) {
+        errors.push({ path, message: `expected one of ${schema.oneOf.join(', ')}, got "${value}"` });
+      } else if (schema.pattern && !schema.pattern.test(value)) {
+        errors.push({ path, message: `expected ${schema.hint}, got "${value}"` });
+      } else if (schema.url && !URL.canParse(value)) {
+        errors.push({ path, message: `expected a URL, got "${value}"` });
+      }
+      return value;
+
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push({ path, message: `expected a number, got ${describe(value)}` });
+      } else if (schema.integer && !Number.isInteger(value)) {
+        errors.push({ path, message: `expected an integer, got ${value}` });
+      } else if (schema.min !== undefined && value < schema.min) {
+        errors.push({ path, message: `must be at least ${schema.min}, got ${value}` });
+      }
+      return value;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        errors.push({ path, message: `expected true or false, got ${describe(value)}` });
+      }
+      return value;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push({ path, message: `expected an array, got ${describe(value)}` });
+        return value;
+      }
+      return value.map((item, i) => validate(item, schema.items!, `${path}[${i}]`, errors, warnings));
+
+    case 'record':
+      if (!isPlainObject(value)) {
+        errors.push({ path, message: `expected an object, got ${describe(value)}` });
+        return value;
+      }
+      return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+        [key, validate(item, schema.values!, joinPath(path, key), errors, warnings)]));
+
+    case 'object': {
+      if (!isPlainObject(value)) {
+        errors.push({ path: path || '(root)', message: `expected an object, got ${describe(value)}` });
+        return value;
+      }
+
+      const fields = schema.fields!;
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        const field = fields[key];
+        if (!field) {
+          errors.push({ path: joinPath(path, key), message: `unknown key (expected one of ${Object.keys(fields).join(', ')})` });
+          continue;
+        }
+        if (field.deprecated) {
+          warnings.push({ path: joinPath(path, key), message: `deprecated: ${field.deprecated}` });
+        }
+        result[key] = validate(item, field, joinPath(path, key), errors, warnings);
+      }
+
+      for (const [key, field] of Object.entries(fields)) {
+        if (key in result) continue;
+        if (field.required) {
+          errors.push({ path: joinPath(path, key), message: 'is required' });
+        } else if (field.default !== undefined) {
+          result[key] = validate(structuredClone(field.default), field, joinPath(path, key), errors, warnings);
+        }
+      }
+      return result;
+    }
+  }
+}
+
+/**
+ * Rules spanning several keys: brand URLs, club references, booking windows, schedules, profile names
+ */
+function checkConsistency(config: Config, errors: ConfigIssue[]): void {
+  let clubNames: string[] = [];
+  try {
+    clubNames = resolveClubs(config.resamania).map(club => club.name);
+    resolveLoginUrl(config.resamania);
+  } catch (error) {
+    errors.push({ path: 'resamania', message: error instanceof Error ? error.message : String(error) });
+  }
+
+  const checkCriteria = (criteria: ClassCriteria, path: string) => {
+    if (criteria.activity_match === 'regex') {
+      try {
+        new RegExp(criteria.activity, 'i');
+      } catch (error) {
+        errors.push({ path: `${path}.activity`, message: `invalid regex: ${error instanceof Error ? error.message : error}` });
+      }
+    }
+    if (criteria.time_window && criteria.time_window.from > criteria.time_window.to) {
+      errors.push({ path: `${path}.time_window`, message: `"from" (${criteria.time_window.from}) is after "to" (${criteria.time_window.to})` });
+    }
+  };
+
+  const checkTargets = (targets: TargetClass[] | undefined, path: string) => {
+    targets?.forEach((target, i) => {
+      if (target.club !== undefined && clubNames.length > 0 && !clubNames.includes(target.club)) {
+        errors.push({ path: `${path}[${i}].club`, message: `unknown club "${target.club}" (known: ${clubNames.join(', ')})` });
+      }
+      checkCriteria(target, `${path}[${i}]`);
+      target.alternatives?.forEach((alternative, j) => checkCriteria(alternative, `${path}[${i}].alternatives[${j}]`));
+    });
+  };
+
+  const checkWindow = (settings: Partial<BookingSettingsConfig>, path: string) => {
+    const { min_hours_from_now, max_days_from_now, max_advance_days } = settings;
+    if (max_advance_days !== undefined && max_days_from_now !== undefined && max_advance_days !== max_days_from_now) {
+      errors.push({ path: `${path}.max_advance_days`, message: `conflicts with max_days_from_now (${max_advance_days} != ${max_days_from_now})` });
+    }
+    if (min_hours_from_now !== undefined && max_days_from_now !== undefined && min_hours_from_now >= max_days_from_now * 24) {
+      errors.push({
+        path: `${path}.min_hours_from_now`,
+        message: `booking window is empty: ${min_hours_from_now}h is not below max_days_from_now (${max_days_from_now * 24}h)`,
+      });
+    }
+  };
+
+  const checkPolicy = (policy: BookingPolicyConfig | undefined, path: string) => {
+    policy?.blackouts?.forEach((blackout, i) => {
+      if (blackout.to !== undefined && blackout.to < blackout.from) {
+        errors.push({ path: `${path}.blackouts[${i}].to`, message: `is before "from" (${blackout.from})` });
+      }
+    });
+  };
+
+  checkTargets(config.target_classes, 'target_classes');
+  checkWindow(config.booking_settings, 'booking_settings');
+  checkPolicy(config.booking_settings.policy, 'booking_settings.policy');
+
+  const schedules = new Set<string>();
+  const profiles = config.profiles?.length ? config.profiles.map(profile => profile.name) : ['default'];
+  const activities = [config.target_classes, ...(config.profiles ?? []).map(profile => profile.target_classes)]
+    .flatMap(targets => targets ?? [])
+    .map(target => target.activity.toLowerCase());
+  config.scheduler?.schedules?.forEach((schedule, i) => {
+    const path = `scheduler.schedules[${i}]`;
+    if (schedules.has(schedule.name)) {
+      errors.push({ path: `${path}.name`, message: `duplicate schedule "${schedule.name}"` });
+    }
+    schedules.add(schedule.name);
+
+    const cronProblem = cronError(schedule.cron);
+    if (cronProblem) {
+      errors.push({ path: `${path}.cron`, message: cronProblem });
+    }
+    if (schedule.timezone && !isValidTimezone(schedule.timezone)) {
+      errors.push({ path: `${path}.timezone`, message: `unknown timezone "${schedule.timezone}"` });
+    }
+    schedule.profiles?.forEach((name, j) => {
+      if (!profiles.includes(name)) {
+        errors.push({ path: `${path}.profiles[${j}]`, message: `unknown profile "${name}" (known: ${profiles.join(', ')})` });
+      }
+    });
+    schedule.targets?.forEach((activity, j) => {
+      if (!activities.includes(activity.toLowerCase())) {
+        errors.push({ path: `${path}.targets[${j}]`, message: `no target class has activity "${activity}"` });
+      }
+    });
+  });
+
+  const seen = new Set<string>();
+  config.profiles?.forEach((profile, i) => {
+    if (seen.has(profile.name)) {
+      errors.push({ path: `profiles[${i}].name`, message: `duplicate profile "${profile.name}"` });
+    }
+    seen.add(profile.name);
+    checkTargets(profile.target_classes, `profiles[${i}].target_classes`);
+    if (profile.booking_settings) {
+      // Only report problems the profile's own settings introduce
+      const merged = mergeBookingSettings({ ...config.booking_settings, max_advance_days: undefined }, profile.booking_settings);
+      checkWindow(merged, `profiles[${i}].booking_settings`);
+      checkPolicy(profile.booking_settings.policy, `profiles[${i}].booking_settings.policy`);
+    }
+  });
+}
+
+/**
+ * Apply environment variable overrides to the raw config
+ */
+function applyEnvOverrides(raw: unknown, env: NodeJS.ProcessEnv, errors: ConfigIssue[]): void {
+  if (!isPlainObject(raw)) return;
+
+  for (const [name, path] of Object.entries(ENV_OVERRIDES)) {
+    const text = env[name];
+    if (text === undefined || text === '') continue;
+
+    const [section, key] = path.split('.');
+    const schema = CONFIG_SCHEMA.fields![section].fields![key];
+    let value: unknown = text;
+    if (schema.type === 'boolean') {
+      value = ['true', '1', 'yes'].includes(text.toLowerCase()) ? true
+        : ['false', '0', 'no'].includes(text.toLowerCase()) ? false
+          : text;
+    } else if (schema.type === 'number') {
+      value = Number(text);
+    }
+
+    const before = errors.length;
+    validate(value, schema, `$${name}`, errors, []);
+    if (errors.length > before) continue;
+
+    raw[section] = { ...(isPlainObject(raw[section]) ? raw[section] : {}), [key]: value };
+  }
+}
+
+/**
+ * Map deprecated keys to their replacement when the replacement is not set
+ */
+function applyDeprecatedAliases(raw: unknown): void {
+  if (!isPlainObject(raw)) return;
+
+  const settingsObjects = [raw.booking_settings];
+  if (Array.isArray(raw.profiles)) {
+    settingsObjects.push(...raw.profiles.map(profile => isPlainObject(profile) ? profile.booking_settings : undefined));
+  }
+
+  for (const settings of settingsObjects) {
+    if (isPlainObject(settings) && settings.max_advance_days !== undefined && settings.max_days_from_now === undefined) {
+      settings.max_days_from_now = settings.max_advance_days;
+    }
+  }
+}
+
+/**
+ * Validate a parsed config
+ */
+export function validateConfig(raw: unknown, env: NodeJS.ProcessEnv = process.env): ConfigCheck {
+  const errors: ConfigIssue[] = [];
+  const warnings: ConfigIssue[] = [];
+
+  applyEnvOverrides(raw, env, errors);
+  applyDeprecatedAliases(raw);
+  const config = validate(raw, CONFIG_SCHEMA, '', errors, warnings) as Config;
+
+  if (errors.length === 0) {
+    checkConsistency(config, errors);
+  }
+
+  return { config: errors.length === 0 ? config : null, errors, warnings };
+}
+
+/**
+ * Read and validate a config file
+ */
+export function checkConfig(configPath: string = DEFAULT_CONFIG_PATH, env: NodeJS.ProcessEnv = process.env): ConfigCheck {
+  if (!existsSync(configPath)) {
+    return { config: null, errors: [{ path: '(file)', message: `config file not found: ${configPath}` }], warnings: [] };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    return { config: null, errors: [{ path: '(file)', message: `invalid JSON: ${error instanceof Error ? error.message : error}` }], warnings: [] };
+  }
+
+  return validateConfig(raw, env);
+}
+
+/**
+ * Load a config file, printing warnings
+ * @throws ConfigError listing every problem found
+ */
+export function loadConfig(configPath: string = DEFAULT_CONFIG_PATH): Config {
+  const { config, errors, warnings } = checkConfig(configPath);
+  if (!config) {
+    throw new ConfigError(configPath, errors);
+  }
+
+  for (const warning of warnings) {
+    log.warn(`⚠ Config ${warning.path}: ${warning.message}`);
+  }
+  return config;
+}
+
+/**
+ * Render issues as one "path: message" line each
+ */
+export function formatConfigIssues(issues: ConfigIssue[]): string {
+  return issues.map(issue => `  - ${issue.path}: ${issue.message}`).join('\n');
+}
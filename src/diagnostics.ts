@@ -0,0 +1,230 @@
+/**
+ * Diagnostics - Failure bundle of a browser session, written when a parse or booking step fails
+ * Each bundle holds a screenshot and HTML snapshot per failed step, the selector matches at that
+ * moment, the Playwright trace and the browser console; old bundles are pruned by count and age
+ */
+
+import { existsSync, mkdirSync, readdirSync, rmSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { BrowserContext, Page } from 'playwright';
+import { log, logContext } from './logger.js';
+import { selectorReport } from './selectors.js';
+import { relativePath } from './utils.js';
+
+export interface DiagnosticsConfig {
+  enabled?: boolean;       // Write failure bundles (default true)
+  dir?: string;            // Bundle directory, relative to the project root
+  trace?: boolean;         // Record a Playwright trace, kept only when a step failed (default true)
+  max_bundles?: number;    // Keep at most this many bundles
+  max_age_days?: number;   // Delete bundles older than this
+}
+
+export const DIAGNOSTICS_DEFAULTS: Required<DiagnosticsConfig> = {
+  enabled: true,
+  dir: './data/failures',
+  trace: true,
+  max_bundles: 20,
+  max_age_days: 14,
+};
+
+interface FailureCapture {
+  step: string;
+  at: string;
+  url: string;
+  error?: string;
+  screenshot?: string;
+  html?: string;
+  selectors?: Record<string, Record<string, number>>;
+}
+
+// Screenshots and snapshots per bundle; later failures are only listed in failures.json
+const MAX_SNAPSHOTS = 10;
+// Console lines kept per session
+const MAX_CONSOLE_LINES = 2000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Collects the failures of one browser session into a bundle directory,
+ * created on the first failure so sessions without failures leave nothing behind
+ */
+export class FailureRecorder {
+  private config: Required<DiagnosticsConfig>;
+  private context: BrowserContext | null = null;
+  private tracing = false;
+  private bundleDir: string | null = null;
+  private captures: FailureCapture[] = [];
+  private consoleLines: string[] = [];
+  private startedAt = new Date();
+
+  /**
+   * @param label - Profile name, part of the bundle directory name
+   */
+  constructor(private label: string, config: DiagnosticsConfig = {}) {
+    this.config = { ...DIAGNOSTICS_DEFAULTS, ...config };
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Directory of the bundle, null until a failure was captured
+   */
+  get dir(): string | null {
+    return this.bundleDir;
+  }
+
+  /**
+   * Start recording a browser context: trace and console of its pages
+   */
+  async attach(context: BrowserContext): Promise<void> {
+    if (!this.config.enabled) return;
+    this.context = context;
+
+    if (this.config.trace) {
+      try {
+        await context.tracing.start({ screenshots: true, snapshots: true });
+        this.tracing = true;
+      } catch (error) {
+        log.warn(`⚠ Could not start the browser trace: ${error}`);
+      }
+    }
+
+    for (const page of context.pages()) {
+      this.watchPage(page);
+    }
+    context.on('page', page => this.watchPage(page));
+  }
+
+  /**
+   * Save the state of the page after a failed step
+   * Never throws: diagnostics must not break the run they describe
+   * @param step - Short step name, e.g. "list-slots" or "book-button-missing"
+   * @returns the bundle directory, or null when diagnostics are disabled or the capture failed
+   */
+  async capture(page: Page, step: string, error?: unknown): Promise<string | null> {
+    if (!this.config.enabled) return null;
+
+    try {
+      const dir = this.ensureBundleDir();
+      const entry: FailureCapture = {
+        step,
+        at: new Date().toISOString(),
+        url: page.url(),
+        error: error === undefined ? undefined : String(error),
+      };
+
+      if (this.captures.length < MAX_SNAPSHOTS) {
+        const prefix = `${String(this.captures.length + 1).padStart(2, '0')}_${step.replace(/[^A-Za-z0-9_-]+/g, '-')}`;
+        entry.screenshot = `${prefix}.png`;
+        await page.screenshot({ path: join(dir, entry.screenshot), fullPage: true })
+          .catch(screenshotError => { entry.screenshot = undefined; log.debug(`Screenshot failed: ${screenshotError}`); });
+        entry.html = `${prefix}.html`;
+        writeFileSync(join(dir, entry.html), await page.content().catch(() => ''));
+        entry.selectors = await selectorReport(page).catch(() => undefined);
+      }
+
+      this.captures.push(entry);
+      writeFileSync(join(dir, 'failures.json'), JSON.stringify({
+        profile: this.label,
+        ...logContext(),
+        started_at: this.startedAt.toISOString(),
+        failures: this.captures,
+      }, null, 2) + '\n');
+
+      log.warn(`📦 Failure "${step}" captured in ${dir}`);
+      return dir;
+    } catch (captureError) {
+      log.warn(`⚠ Could not capture failure "${step}": ${captureError}`);
+      return null;
+    }
+  }
+
+  /**
+   * Stop recording: keep the trace and console log when a failure was captured, then prune old bundles
+   * Call before the context is closed
+   * @returns the bundle directory, or null when nothing failed
+   */
+  async finish(): Promise<string | null> {
+    if (!this.config.enabled) return null;
+
+    if (this.tracing && this.context) {
+      const path = this.bundleDir ? join(this.bundleDir, 'trace.zip') : undefined;
+      await this.context.tracing.stop(path ? { path } : undefined)
+        .catch(error => log.warn(`⚠ Could not save the browser trace: ${error}`));
+      this.tracing = false;
+    }
+
+    if (this.bundleDir) {
+      writeFileSync(join(this.bundleDir, 'console.log'), this.consoleLines.join('\n') + '\n');
+      log.info(`📦 Failure bundle: ${this.bundleDir} (${this.captures.length} failure${this.captures.length === 1 ? '' : 's'})`);
+    }
+
+    pruneFailureBundles(this.config);
+    return this.bundleDir;
+  }
+
+  private ensureBundleDir(): string {
+    if (!this.bundleDir) {
+      const runId = logContext().run_id;
+      const stamp = this.startedAt.toISOString().replace(/[:.]/g, '-');
+      const name = [stamp, this.label, runId].filter(Boolean).join('_');
+      this.bundleDir = join(failuresDir(this.config), name);
+      mkdirSync(this.bundleDir, { recursive: true });
+    }
+    return this.bundleDir;
+  }
+
+  private watchPage(page: Page): void {
+    page.on('console', message => this.addConsoleLine(`${message.type()}: ${message.text()}`));
+    page.on('pageerror', error => this.addConsoleLine(`pageerror: ${error.message}`));
+    page.on('requestfailed', request =>
+      this.addConsoleLine(`requestfailed: ${request.method()} ${request.url()} ${request.failure()?.errorText ?? ''}`.trim()));
+  }
+
+  private addConsoleLine(line: string): void {
+    this.consoleLines.push(`[${new Date().toISOString()}] ${line}`);
+    if (this.consoleLines.length > MAX_CONSOLE_LINES) {
+      this.consoleLines.shift();
+    }
+  }
+}
+
+/**
+ * Bundle directory: FAILURES_DIR, else diagnostics.dir
+ */
+export function failuresDir(config: DiagnosticsConfig = {}): string {
+  return process.env.FAILURES_DIR || relativePath(config.dir ?? DIAGNOSTICS_DEFAULTS.dir);
+}
+
+/**
+ * Delete failure bundles beyond diagnostics.max_bundles or older than diagnostics.max_age_days
+ * @returns number of bundles deleted
+ */
+export function pruneFailureBundles(config: DiagnosticsConfig = {}): number {
+  const { max_bundles, max_age_days } = { ...DIAGNOSTICS_DEFAULTS, ...config };
+  const dir = failuresDir(config);
+  if (!existsSync(dir)) return 0;
+
+  // Bundle names start with their timestamp, so newest first is reverse name order
+  const bundles = readdirSync(dir)
+    .filter(name => statSync(join(dir, name)).isDirectory())
+    .sort()
+    .reverse();
+  const oldest = Date.now() - max_age_days * DAY_MS;
+
+  let deleted = 0;
+  for (const [i, name] of bundles.entries()) {
+    const path = join(dir, name);
+    if (i >= max_bundles || statSync(path).mtimeMs < oldest) {
+      rmSync(path, { recursive: true, force: true });
+      deleted++;
+    }
+  }
+
+  if (deleted > 0) {
+    log.info(`Deleted ${deleted} old failure bundle${deleted === 1 ? '' : 's'}`);
+  }
+  return deleted;
+}
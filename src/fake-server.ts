@@ -0,0 +1,837 @@
+/**
+ * Fake Resamania - Local stand-in for the member area and JSON API, to run the booker offline
+ * Serves the login, planning and bookings pages with the markup the booker reads (or recorded
+ * pages from a directory) and the Hydra API, and simulates full classes, waiting lists,
+ * slow toasts and session expiry from a scenario file; control endpoints change the planning live
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { existsSync, readFileSync } from 'fs';
+import { randomUUID } from 'crypto';
+import { isAbsolute, join } from 'path';
+import * as dotenv from 'dotenv';
+import { LOCALES, type LocaleCode } from './locale.js';
+import { getClock, type Clock } from './clock.js';
+import { dayOfWeek, formatSlotTime, relativePath } from './utils.js';
+import { log } from './logger.js';
+
+dotenv.config();
+
+export interface FakeClass {
+  activity: string;
+  day: string;                // English weekday, repeated every week of the planning
+  time: string;               // "HH:MM"
+  duration_minutes?: number;  // Default 45
+  coach?: string;
+  room?: string;
+  capacity?: number;          // Default 20
+  attending?: number;         // Places already taken by other members (default 0)
+  waiting?: number;           // Other members on the waiting list (default 0)
+  booked?: boolean;           // The member already holds a place
+  waitlisted?: boolean;       // The member is already on the waiting list
+  bookable?: boolean;         // false: listed but not open for booking (default true)
+}
+
+export interface FakeScenario {
+  brand?: string;                 // Default "fitnesstraining"
+  club_id?: string;               // Default "/<brand>/clubs/528"
+  username?: string;              // Accepted credentials (default: any)
+  password?: string;
+  locale?: LocaleCode;            // Language of the pages (default "en")
+  days?: number;                  // Days of planning from today (default 7)
+  days_per_view?: number;         // Days per planning view, with a "Next" button to the following ones (default: all)
+  cards_per_load?: number;        // Cards rendered at first, more added when scrolling down (default: all)
+  classes?: FakeClass[];
+  toast_delay_ms?: number;        // Delay before the confirmation toast (default 300)
+  session_ttl_seconds?: number;   // Sessions (cookie and API token) expire after this (default 1 day)
+  refuse_bookings?: string;       // Refuse every booking with this toast / API message
+  pages_dir?: string;             // Recorded login.html / planning.html / bookings.html served as-is
+}
+
+export interface FakeServerOptions {
+  port?: number;   // Default 4010
+  host?: string;   // Default 127.0.0.1
+  clock?: Clock;   // Default: the current clock
+}
+
+interface FakeEvent {
+  id: number;
+  activity: string;
+  coach?: string;
+  room?: string;
+  start: Date;
+  end: Date;
+  capacity: number;
+  attending: number;
+  waiting: number;
+  bookable: boolean;
+  attendeeId: number | null;  // The member's attendee record
+  waitingList: boolean;       // Whether that record is a waiting list entry
+  position?: number;          // The member's waiting list position
+}
+
+// Fields of a class that can be changed while the server runs
+interface FakeClassUpdate {
+  capacity?: number;
+  attending?: number;
+  bookable?: boolean;
+}
+
+interface FakeSession {
+  token: string;
+  expiresAt: number;
+}
+
+const DEFAULT_CLASSES: FakeClass[] = [
+  { activity: 'CAF', day: 'Monday', time: '12:30' },
+  { activity: 'RPM', day: 'Tuesday', time: '12:30', attending: 18 },
+  { activity: 'CAF', day: 'Wednesday', time: '09:15', booked: true },
+  { activity: 'Body Pump', day: 'Thursday', time: '12:30', attending: 20, waiting: 2 },
+  { activity: 'Yoga', day: 'Friday', time: '18:00', coach: 'Marie Dupont', room: 'Studio 2' },
+  { activity: 'RPM', day: 'Saturday', time: '10:00', bookable: false },
+];
+
+const CARD_CLASS = 'MuiGrid-root MuiGrid-item MuiGrid-grid-md-6 MuiGrid-grid-lg-3';
+const SESSION_COOKIE = 'fake_resamania_session';
+const PAGE_SIZE = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Texts of the generated pages, per language
+const TEXTS: Record<LocaleCode, {
+  signedUp: string;
+  onWaitingList: (position: number) => string;
+  full: string;
+  remaining: (places: number) => string;
+  closed: string;
+  coach: (name: string) => string;
+  room: (name: string) => string;
+  attendance: (attending: number, capacity: number) => string;
+  search: string;
+  next: string;
+  book: string;
+  confirm: string;
+  joinWaitlist: string;
+  cancel: string;
+  booked: string;
+  waitlisted: (position: number) => string;
+  cancelled: string;
+  continueWithPassword: string;
+  logIn: string;
+  badCredentials: string;
+}> = {
+  en: {
+    signedUp: 'Signed up',
+    onWaitingList: position => `On waiting list - position ${position}`,
+    full: 'Full',
+    remaining: places => `${places} remaining places`,
+    closed: 'Booking not open',
+    coach: name => `With ${name}`,
+    room: name => `Room: ${name}`,
+    attendance: (attending, capacity) => `${attending}/${capacity} participants`,
+    search: 'Search an activity',
+    next: 'Next',
+    book: 'Book',
+    confirm: 'Confirm',
+    joinWaitlist: 'Join waiting list',
+    cancel: 'Cancel',
+    booked: 'Booking confirmed',
+    waitlisted: position => `You are ${position} on the waiting list`,
+    cancelled: 'Booking cancelled',
+    continueWithPassword: 'Continue with password',
+    logIn: 'Log in',
+    badCredentials: 'Invalid credentials',
+  },
+  fr: {
+    signedUp: 'Inscrit',
+    onWaitingList: position => `En liste d'attente - position ${position}`,
+    full: 'Complet',
+    remaining: places => `${places} places restantes`,
+    closed: 'Réservation non ouverte',
+    coach: name => `Avec ${name}`,
+    room: name => `Salle : ${name}`,
+    attendance: (attending, capacity) => `${attending}/${capacity} participants`,
+    search: 'Rechercher une activité',
+    next: 'Suivant',
+    book: 'Réserver',
+    confirm: 'Confirmer',
+    joinWaitlist: "Rejoindre la liste d'attente",
+    cancel: 'Annuler',
+    booked: 'Réservation confirmée',
+    waitlisted: position => `Vous êtes ${position}e sur la liste d'attente`,
+    cancelled: 'Réservation annulée',
+    continueWithPassword: 'Continuer avec mot de passe',
+    logIn: 'Se connecter',
+    badCredentials: 'Identifiants invalides',
+  },
+};
+
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export class FakeResamaniaServer {
+  private scenario: FakeScenario;
+  private brand: string;
+  private clubId: string;
+  private clock: Clock;
+  private options: Required<Omit<FakeServerOptions, 'clock'>>;
+  private events: FakeEvent[] = [];
+  private sessions = new Map<string, FakeSession>();
+  private nextAttendeeId = 1;
+  private server: Server | null = null;
+
+  constructor(scenario: FakeScenario = {}, options: FakeServerOptions = {}) {
+    this.scenario = scenario;
+    this.brand = scenario.brand ?? 'fitnesstraining';
+    this.clubId = scenario.club_id ?? `/${this.brand}/clubs/528`;
+    this.clock = options.clock ?? getClock();
+    this.options = { port: options.port ?? 4010, host: options.host ?? '127.0.0.1' };
+    this.reset();
+  }
+
+  /**
+   * Base URL to use as resamania.base_url and resamania.api_url
+   */
+  get url(): string {
+    return `http://${this.options.host}:${this.options.port}`;
+  }
+
+  /**
+   * Rebuild the planning from the scenario, dropping bookings and sessions
+   */
+  reset(): void {
+    this.events = buildEvents(this.scenario, this.clock.now());
+    this.sessions.clear();
+    this.nextAttendeeId = 1;
+    for (const event of this.events) {
+      if (event.attendeeId !== null) {
+        event.attendeeId = this.nextAttendeeId++;
+      }
+    }
+  }
+
+  /**
+   * End every session, as when the real site logs members out
+   */
+  expireSessions(): void {
+    this.sessions.clear();
+  }
+
+  /**
+   * Add a class to the planning, as when the club schedules an extra one
+   */
+  addClass(fake: Partial<FakeClass> & { start?: string }): FakeEvent {
+    const start = new Date(fake.start ?? '');
+    if (!fake.activity || Number.isNaN(start.getTime())) {
+      throw new HttpError(400, '"activity" and an ISO "start" are required');
+    }
+
+    const event: FakeEvent = {
+      id: Math.max(0, ...this.events.map(candidate => candidate.id)) + 1,
+      activity: fake.activity,
+      coach: fake.coach,
+      room: fake.room,
+      start,
+      end: new Date(start.getTime() + (fake.duration_minutes ?? 45) * 60 * 1000),
+      capacity: fake.capacity ?? 20,
+      attending: fake.attending ?? 0,
+      waiting: 0,
+      bookable: fake.bookable ?? true,
+      attendeeId: null,
+      waitingList: false,
+    };
+    this.events.push(event);
+    this.events.sort((a, b) => a.start.getTime() - b.start.getTime());
+    return event;
+  }
+
+  /**
+   * Change the places of a class, as when other members book or cancel
+   */
+  updateClass(id: number, update: FakeClassUpdate): FakeEvent {
+    const event = this.event(id);
+    event.capacity = update.capacity ?? event.capacity;
+    event.attending = Math.min(event.capacity, update.attending ?? event.attending);
+    event.bookable = update.bookable ?? event.bookable;
+    return event;
+  }
+
+  /**
+   * Remove a class from the planning, as when the club cancels it
+   */
+  removeClass(id: number): void {
+    const event = this.event(id);
+    this.events = this.events.filter(candidate => candidate !== event);
+  }
+
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      // Dates of the injected clock, so the sniper can sync its server clock to the fake
+      res.setHeader('Date', this.clock.now().toUTCString());
+      this.handle(req, res).catch(error => {
+        const status = error instanceof HttpError ? error.status : 500;
+        if (status === 500) {
+          log.error(`✗ ${req.method} ${req.url}: ${error}`);
+        }
+        sendJson(res, status, { 'hydra:description': error instanceof Error ? error.message : String(error) });
+      });
+    });
+
+    await new Promise<void>(resolve => this.server!.listen(this.options.port, this.options.host, resolve));
+    log.info(`✓ Fake Resamania listening on ${this.url} (brand ${this.brand}, ${this.events.length} classes)`);
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>(resolve => this.server ? this.server.close(() => resolve()) : resolve());
+    this.server = null;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', this.url);
+    const path = url.pathname;
+    const brand = `/${this.brand}`;
+    log.debug(`${req.method} ${path}`);
+
+    // Control endpoints of the fake itself
+    if (path === '/__fake/state' && req.method === 'GET') {
+      return sendJson(res, 200, { now: this.clock.now(), sessions: this.sessions.size, events: this.events });
+    }
+    if (path === '/__fake/reset' && req.method === 'POST') {
+      this.reset();
+      return sendJson(res, 200, { reset: true });
+    }
+    if (path === '/__fake/expire-sessions' && req.method === 'POST') {
+      this.expireSessions();
+      return sendJson(res, 200, { expired: true });
+    }
+    if (path === '/__fake/classes' && req.method === 'POST') {
+      return sendJson(res, 201, this.addClass(JSON.parse(await readBody(req) || '{}')));
+    }
+    const classMatch = path.match(/^\/__fake\/classes\/(\d+)$/);
+    if (classMatch && req.method === 'PATCH') {
+      return sendJson(res, 200, this.updateClass(Number(classMatch[1]), JSON.parse(await readBody(req) || '{}')));
+    }
+    if (classMatch && req.method === 'DELETE') {
+      this.removeClass(Number(classMatch[1]));
+      return sendJson(res, 200, { deleted: true });
+    }
+
+    // Login (resolveLoginUrl: <api_url>/oauth/login/<brand>)
+    if (path === `/oauth/login/${this.brand}`) {
+      return req.method === 'POST' ? this.login(req, res) : sendHtml(res, 200, this.loginPage());
+    }
+    if (path === '/' || path === brand) {
+      return redirect(res, `${brand}/planning`);
+    }
+
+    // Member area pages
+    if (path === `${brand}/planning` || path === `${brand}/bookings`) {
+      if (!this.cookieSession(req)) {
+        return redirect(res, `/oauth/login/${this.brand}?redirect_uri=${encodeURIComponent(path)}`);
+      }
+      return sendHtml(res, 200, path.endsWith('planning')
+        ? this.planningPage(Number(url.searchParams.get('view')) || 0)
+        : this.bookingsPage());
+    }
+    if (path === `${brand}/planning/actions` && req.method === 'POST') {
+      if (!this.cookieSession(req)) throw new HttpError(401, 'Session expired');
+      const body = await readBody(req);
+      return sendJson(res, 200, this.pageAction(JSON.parse(body || '{}')));
+    }
+
+    // JSON API
+    if (path.startsWith(`${brand}/`)) {
+      this.authenticateApi(req);
+      return this.api(req, res, url);
+    }
+
+    throw new HttpError(404, `No route for ${req.method} ${path}`);
+  }
+
+  private async login(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const form = new URLSearchParams(await readBody(req));
+    const username = form.get('username') ?? '';
+    const password = form.get('password') ?? '';
+    const valid = username !== '' && password !== '' &&
+      (this.scenario.username === undefined || this.scenario.username === username) &&
+      (this.scenario.password === undefined || this.scenario.password === password);
+    if (!valid) {
+      return sendHtml(res, 401, this.loginPage(this.texts.badCredentials));
+    }
+
+    const ttlSeconds = this.scenario.session_ttl_seconds ?? 24 * 60 * 60;
+    const expiresAt = this.clock.now().getTime() + ttlSeconds * 1000;
+    const id = randomUUID();
+    const token = fakeJwt(username, expiresAt);
+    this.sessions.set(id, { token, expiresAt });
+    log.info(`Fake login: ${username} (session expires ${new Date(expiresAt).toISOString()})`);
+
+    // The member app keeps its OAuth token in local storage
+    const target = `/${this.brand}/planning`;
+    res.writeHead(200, {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Set-Cookie': `${SESSION_COOKIE}=${id}; Path=/; HttpOnly; Max-Age=${ttlSeconds}`,
+    });
+    res.end(`<!doctype html><html><body><script>
+localStorage.setItem('auth', ${JSON.stringify(JSON.stringify({ access_token: token }))});
+location.replace(${JSON.stringify(target)});
+</script></body></html>`);
+  }
+
+  private cookieSession(req: IncomingMessage): FakeSession | null {
+    const cookie = (req.headers.cookie ?? '').split(/;\s*/).find(item => item.startsWith(`${SESSION_COOKIE}=`));
+    const session = cookie ? this.sessions.get(cookie.slice(SESSION_COOKIE.length + 1)) : undefined;
+    return session && session.expiresAt > this.clock.now().getTime() ? session : null;
+  }
+
+  private authenticateApi(req: IncomingMessage): void {
+    const token = (req.headers.authorization ?? '').replace(/^Bearer\s+/i, '');
+    const session = [...this.sessions.values()].find(candidate => candidate.token === token);
+    if (!session || session.expiresAt <= this.clock.now().getTime()) {
+      throw new HttpError(401, 'Invalid or expired token');
+    }
+  }
+
+  private async api(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    const brand = `/${this.brand}`;
+    const path = url.pathname;
+
+    if (req.method === 'GET' && path === `${brand}/class_events`) {
+      const after = url.searchParams.get('startedAt[after]');
+      const before = url.searchParams.get('startedAt[before]');
+      const events = this.events.filter(event =>
+        (!after || event.start >= new Date(after)) && (!before || event.start <= new Date(before)));
+      return sendJson(res, 200, this.collection(url, events.map(event => this.apiEvent(event))));
+    }
+
+    const eventMatch = path.match(new RegExp(`^${brand}/class_events/(\\d+)$`));
+    if (req.method === 'GET' && eventMatch) {
+      return sendJson(res, 200, this.apiEvent(this.event(Number(eventMatch[1]))));
+    }
+
+    if (req.method === 'GET' && path === `${brand}/attendees`) {
+      const after = url.searchParams.get('classEvent.startedAt[after]');
+      const attendees = this.events
+        .filter(event => event.attendeeId !== null && (!after || event.start >= new Date(after)))
+        .map(event => ({
+          '@id': `${brand}/attendees/${event.attendeeId}`,
+          classEvent: `${brand}/class_events/${event.id}`,
+          waitingList: event.waitingList,
+        }));
+      return sendJson(res, 200, this.collection(url, attendees));
+    }
+
+    if (req.method === 'POST' && path === `${brand}/attendees`) {
+      const body = JSON.parse(await readBody(req) || '{}');
+      const id = typeof body.classEvent === 'string' ? Number(body.classEvent.split('/').pop()) : NaN;
+      const result = this.book(this.event(id), body.waitingList === true);
+      if (!result.ok) throw new HttpError(422, result.message);
+      const event = this.event(id);
+      return sendJson(res, 201, {
+        '@id': `${brand}/attendees/${event.attendeeId}`,
+        classEvent: `${brand}/class_events/${event.id}`,
+        waitingList: event.waitingList,
+        waitingListPosition: event.position,
+      });
+    }
+
+    const attendeeMatch = path.match(new RegExp(`^${brand}/attendees/(\\d+)$`));
+    if (req.method === 'DELETE' && attendeeMatch) {
+      const event = this.events.find(candidate => candidate.attendeeId === Number(attendeeMatch[1]));
+      if (!event) throw new HttpError(404, 'Attendee not found');
+      this.cancel(event);
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    throw new HttpError(404, `No route for ${req.method} ${path}`);
+  }
+
+  /**
+   * Hydra page of a collection, linking the next page
+   */
+  private collection<T>(url: URL, members: T[]): unknown {
+    const itemsPerPage = Number(url.searchParams.get('itemsPerPage')) || PAGE_SIZE;
+    const page = Number(url.searchParams.get('page')) || 1;
+    const view: Record<string, string> = {};
+    if (page * itemsPerPage < members.length) {
+      const next = new URLSearchParams(url.searchParams);
+      next.set('page', String(page + 1));
+      view['hydra:next'] = `${url.pathname}?${next}`;
+    }
+    return {
+      'hydra:member': members.slice((page - 1) * itemsPerPage, page * itemsPerPage),
+      'hydra:totalItems': members.length,
+      'hydra:view': view,
+    };
+  }
+
+  private apiEvent(event: FakeEvent): unknown {
+    const [firstName, ...lastName] = (event.coach ?? '').split(' ');
+    return {
+      '@id': `/${this.brand}/class_events/${event.id}`,
+      activity: { name: event.activity },
+      room: event.room ? { name: event.room } : null,
+      coach: event.coach ? { firstName, lastName: lastName.join(' ') } : null,
+      club: this.clubId,
+      startedAt: event.start.toISOString(),
+      endedAt: event.end.toISOString(),
+      attendingLimit: event.capacity,
+      attendingCount: event.attending,
+      attendee: event.attendeeId !== null ? `/${this.brand}/attendees/${event.attendeeId}` : null,
+      waitingList: event.attendeeId !== null && event.waitingList,
+      waitingListPosition: event.position,
+      bookable: event.bookable,
+    };
+  }
+
+  private event(id: number): FakeEvent {
+    const event = this.events.find(candidate => candidate.id === id);
+    if (!event) throw new HttpError(404, `Class event ${id} not found`);
+    return event;
+  }
+
+  /**
+   * Book a place, or a waiting list spot of a full class
+   */
+  private book(event: FakeEvent, waitingList: boolean): { ok: boolean; message: string } {
+    if (this.scenario.refuse_bookings) {
+      return { ok: false, message: this.scenario.refuse_bookings };
+    }
+    if (event.attendeeId !== null) {
+      return { ok: false, message: 'Already booked' };
+    }
+    if (!event.bookable) {
+      return { ok: false, message: 'Booking is not open' };
+    }
+
+    const full = event.attending >= event.capacity;
+    if (full && !waitingList) {
+      return { ok: false, message: 'Class is full' };
+    }
+
+    event.attendeeId = this.nextAttendeeId++;
+    if (full) {
+      event.waitingList = true;
+      event.waiting++;
+      event.position = event.waiting;
+      return { ok: true, message: this.texts.waitlisted(event.position) };
+    }
+
+    event.waitingList = false;
+    event.attending++;
+    return { ok: true, message: this.texts.booked };
+  }
+
+  private cancel(event: FakeEvent): void {
+    if (event.waitingList) {
+      event.waiting--;
+    } else {
+      event.attending--;
+    }
+    event.attendeeId = null;
+    event.waitingList = false;
+    event.position = undefined;
+  }
+
+  /**
+   * Button click on the planning page: book, join the waiting list or cancel
+   * @returns the toast text and the refreshed card
+   */
+  private pageAction(body: { id?: number; action?: string }): { ok: boolean; message: string; card: string } {
+    const event = this.event(Number(body.id));
+    let result: { ok: boolean; message: string };
+
+    switch (body.action) {
+      case 'book':
+      case 'waitlist':
+        result = this.book(event, body.action === 'waitlist');
+        break;
+      case 'cancel':
+        if (event.attendeeId === null) throw new HttpError(422, 'Not booked');
+        this.cancel(event);
+        result = { ok: true, message: this.texts.cancelled };
+        break;
+      default:
+        throw new HttpError(400, `Unknown action ${body.action}`);
+    }
+
+    return { ...result, card: this.card(event, true) };
+  }
+
+  private get texts() {
+    return TEXTS[this.scenario.locale ?? 'en'];
+  }
+
+  private page(title: string, body: string): string {
+    return `<!doctype html>
+<html lang="${this.scenario.locale ?? 'en'}">
+<head><meta charset="utf-8"><title>${title} - Fake Resamania</title></head>
+<body>${body}</body>
+</html>`;
+  }
+
+  private recordedPage(name: string): string | null {
+    const dir = this.scenario.pages_dir;
+    if (!dir) return null;
+    const path = join(isAbsolute(dir) ? dir : relativePath(dir), `${name}.html`);
+    return existsSync(path) ? readFileSync(path, 'utf-8') : null;
+  }
+
+  private loginPage(error?: string): string {
+    const recorded = this.recordedPage('login');
+    if (recorded && !error) return recorded;
+
+    const texts = this.texts;
+    return this.page('Login', `
+<form method="post">
+  ${error ? `<p role="alert">${escapeHtml(error)}</p>` : ''}
+  <input type="text" name="username" placeholder="Email">
+  <button type="button" id="next" onclick="document.getElementById('step2').style.display='block'">${texts.continueWithPassword}</button>
+  <div id="step2" style="display:none">
+    <input type="password" name="password">
+    <button type="submit">${texts.logIn}</button>
+  </div>
+</form>`);
+  }
+
+  /**
+   * Planning page: one view of `days_per_view` days, with its cards rendered by script
+   * `cards_per_load` at a time as the page is scrolled, and an activity search field
+   * @param view - View index, 0 for the view starting today
+   */
+  private planningPage(view: number): string {
+    const recorded = this.recordedPage('planning');
+    if (recorded) return recorded;
+
+    const days = this.scenario.days ?? 7;
+    const perView = this.scenario.days_per_view ?? days;
+    const today = this.clock.now();
+    const first = new Date(today.getFullYear(), today.getMonth(), today.getDate() + view * perView);
+    const last = new Date(first.getFullYear(), first.getMonth(), first.getDate() + perView);
+    const cards = this.events
+      .filter(event => event.start >= first && event.start < last)
+      .map(event => ({ id: event.id, activity: event.activity, html: this.card(event, true) }));
+    const hasNext = (view + 1) * perView < days;
+
+    const texts = this.texts;
+    const delay = this.scenario.toast_delay_ms ?? 300;
+    return this.page('Planning', `
+<input type="search" placeholder="${escapeHtml(texts.search)}" oninput="search(this.value)">
+${hasNext ? `<button aria-label="${texts.next}" onclick="location.search = '?view=${view + 1}'">›</button>` : ''}
+<div id="cards" class="MuiGrid-root MuiGrid-container"></div>
+<div id="more"></div>
+<div id="dialogs"></div>
+<div id="toasts"></div>
+<script>
+const CARDS = ${JSON.stringify(cards).replace(/</g, '\\u003c')};
+const PER_LOAD = ${this.scenario.cards_per_load ?? 0} || CARDS.length;
+let shown = [];
+function load() {
+  const list = document.getElementById('cards');
+  const next = shown.slice(list.children.length, list.children.length + PER_LOAD);
+  list.insertAdjacentHTML('beforeend', next.map(card => card.html).join(''));
+  // The observer only fires on changes: keep loading while the end of the list is in view
+  requestAnimationFrame(() => {
+    const more = document.getElementById('more').getBoundingClientRect();
+    if (more.top < innerHeight && list.children.length < shown.length) load();
+  });
+}
+function search(text) {
+  shown = CARDS.filter(card => card.activity.toLowerCase().includes(text.trim().toLowerCase()));
+  document.getElementById('cards').replaceChildren();
+  load();
+}
+new IntersectionObserver(entries => { if (entries[0].isIntersecting) load(); }).observe(document.getElementById('more'));
+search('');
+async function act(id, action) {
+  const response = await fetch(location.pathname + '/actions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ id, action }),
+  });
+  const result = await response.json();
+  if (result.card) {
+    const entry = CARDS.find(card => card.id === id);
+    if (entry) entry.html = result.card;
+    const element = document.getElementById('card-' + id);
+    if (element) element.outerHTML = result.card;
+  }
+  setTimeout(() => {
+    const toast = document.createElement('div');
+    toast.className = 'MuiSnackbar-root';
+    toast.innerHTML = '<div class="MuiAlert-root" role="alert"></div>';
+    toast.firstChild.textContent = result.message || result['hydra:description'] || 'Error';
+    document.getElementById('toasts').replaceChildren(toast);
+    setTimeout(() => toast.remove(), 6000);
+  }, ${delay});
+}
+function ask(id, action) {
+  const dialog = document.createElement('div');
+  dialog.setAttribute('role', 'dialog');
+  const button = document.createElement('button');
+  button.textContent = ${JSON.stringify(texts.confirm)};
+  button.onclick = () => { dialog.remove(); act(id, action); };
+  dialog.appendChild(button);
+  document.getElementById('dialogs').replaceChildren(dialog);
+}
+</script>`);
+  }
+
+  private bookingsPage(): string {
+    const recorded = this.recordedPage('bookings');
+    if (recorded) return recorded;
+
+    const cards = this.events
+      .filter(event => event.attendeeId !== null)
+      .map(event => this.card(event, false))
+      .join('\n');
+    return this.page('Bookings', `<div class="MuiGrid-root MuiGrid-container">\n${cards}\n</div>`);
+  }
+
+  /**
+   * Planning (or bookings page) card of a class
+   * @param withButtons - Show the book / waiting list / cancel buttons
+   */
+  private card(event: FakeEvent, withButtons: boolean): string {
+    const texts = this.texts;
+    const locale = LOCALES[this.scenario.locale ?? 'en'];
+    const date = `${locale.weekdays[event.start.getDay()]} ${event.start.getDate()} ${locale.months[event.start.getMonth()]}`;
+    const full = event.attending >= event.capacity;
+
+    let status: string;
+    let button = '';
+    if (event.attendeeId !== null && event.waitingList) {
+      status = texts.onWaitingList(event.position ?? 1);
+      button = `<button onclick="ask(${event.id}, 'cancel')">${texts.cancel}</button>`;
+    } else if (event.attendeeId !== null) {
+      status = texts.signedUp;
+      button = `<button onclick="ask(${event.id}, 'cancel')">${texts.cancel}</button>`;
+    } else if (!event.bookable) {
+      status = texts.closed;
+    } else if (full) {
+      status = texts.full;
+      button = `<button onclick="act(${event.id}, 'waitlist')">${texts.joinWaitlist}</button>`;
+    } else {
+      status = texts.remaining(event.capacity - event.attending);
+      button = `<button onclick="ask(${event.id}, 'book')">${texts.book}</button>`;
+    }
+
+    return `<div id="card-${event.id}" class="${CARD_CLASS}">
+  <h3>${escapeHtml(event.activity)}</h3>
+  <h5>${formatSlotTime(event.start)}</h5>
+  <p>${date}</p>
+  ${event.coach ? `<p>${escapeHtml(texts.coach(event.coach))}</p>` : ''}
+  ${event.room ? `<p>${escapeHtml(texts.room(event.room))}</p>` : ''}
+  <p>${texts.attendance(event.attending, event.capacity)}</p>
+  <p>${escapeHtml(status)}</p>
+  ${withButtons ? button : ''}
+</div>`;
+  }
+}
+
+/**
+ * Class events of the scenario over its planning days, starting today
+ */
+function buildEvents(scenario: FakeScenario, now: Date): FakeEvent[] {
+  const events: FakeEvent[] = [];
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  for (let offset = 0; offset < (scenario.days ?? 7); offset++) {
+    const day = new Date(today.getTime() + offset * DAY_MS);
+    for (const fake of scenario.classes ?? DEFAULT_CLASSES) {
+      if (fake.day !== dayOfWeek(day)) continue;
+
+      const [hour, minute] = fake.time.split(':').map(Number);
+      const start = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute);
+      const held = fake.booked || fake.waitlisted;
+      const waiting = fake.waiting ?? 0;
+      events.push({
+        id: events.length + 1,
+        activity: fake.activity,
+        coach: fake.coach,
+        room: fake.room,
+        start,
+        end: new Date(start.getTime() + (fake.duration_minutes ?? 45) * 60 * 1000),
+        capacity: fake.capacity ?? 20,
+        attending: Math.min(fake.capacity ?? 20, (fake.attending ?? 0) + (fake.booked ? 1 : 0)),
+        waiting: waiting + (fake.waitlisted ? 1 : 0),
+        bookable: fake.bookable ?? true,
+        attendeeId: held ? 0 : null,  // Numbered by reset()
+        waitingList: !fake.booked && Boolean(fake.waitlisted),
+        position: fake.waitlisted && !fake.booked ? waiting + 1 : undefined,
+      });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Unsigned JWT carrying the expiry, enough for the booker to read the session lifetime
+ */
+function fakeJwt(subject: string, expiresAt: number): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'none', typ: 'JWT' })}.${encode({ sub: subject, exp: Math.floor(expiresAt / 1000) })}.fake`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function sendHtml(res: ServerResponse, status: number, html: string): void {
+  res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(html);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { 'Content-Type': 'application/ld+json' });
+  res.end(JSON.stringify(body, null, 2));
+}
+
+function redirect(res: ServerResponse, location: string): void {
+  res.writeHead(302, { Location: location });
+  res.end();
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Read a scenario file (relative to the project root)
+ */
+export function loadScenario(path: string): FakeScenario {
+  const file = isAbsolute(path) ? path : relativePath(path);
+  return JSON.parse(readFileSync(file, 'utf-8'));
+}
+
+// Fake server entry point
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const scenario = process.env.FAKE_SCENARIO ? loadScenario(process.env.FAKE_SCENARIO) : {};
+  const server = new FakeResamaniaServer(scenario, {
+    port: Number(process.env.FAKE_PORT || 4010),
+    host: process.env.FAKE_HOST || '127.0.0.1',
+  });
+
+  const shutdown = (signal: string) => {
+    log.info(`\n[${signal}] Shutting down gracefully...`);
+    server.stop().finally(() => process.exit(0));
+  };
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+
+  server.start().catch(error => {
+    log.error(`Fatal error: ${error}`);
+    process.exit(1);
+  });
+}
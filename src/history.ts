@@ -0,0 +1,301 @@
+/**
+ * Booking History - JSON-lines journal of seen slots and booking attempts
+ * Persists across runs so already confirmed slots are skipped and success rates can be reported
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { dirname } from 'path';
+import type { SlotInfo } from './booker.js';
+import { log } from './logger.js';
+import { now } from './clock.js';
+import { relativePath } from './utils.js';
+
+export type AttemptOutcome = 'booked' | 'failed' | 'unknown' | 'waitlisted' | 'promoted';
+
+interface SlotFields {
+  key: string;
+  activity: string;
+  date: string;
+  time: string;
+  at: string;
+  club?: string;
+  recorded_at: string;
+}
+
+export interface SeenRecord extends SlotFields {
+  type: 'seen';
+  status: string;
+  is_available: boolean;
+  waitlist_position?: number;
+}
+
+export interface AttemptRecord extends SlotFields {
+  type: 'attempt';
+  outcome: AttemptOutcome;
+  message?: string;
+}
+
+export type DecisionAction = 'cancelled' | 'confirmed';
+
+export interface DecisionRecord extends SlotFields {
+  type: 'decision';
+  action: DecisionAction;
+  reason?: string;
+}
+
+export type HistoryRecord = SeenRecord | AttemptRecord | DecisionRecord;
+
+export type BookingStatus = 'booked' | 'waitlisted' | 'cancelled';
+
+/**
+ * Current state of a class that was booked at some point
+ */
+export interface BookingState extends Omit<SlotFields, 'recorded_at'> {
+  status: BookingStatus;
+  sequence: number;    // Number of status changes since the first booking
+  updated_at: string;  // Time of the last status change
+}
+
+export interface ClassStats {
+  activity: string;
+  attempts: number;
+  booked: number;
+  failed: number;
+  successRate: number;
+}
+
+/**
+ * Build the journal key of a slot: activity, calendar date and time
+ */
+export function slotKey(slot: Pick<SlotInfo, 'activity_name' | 'at' | 'time'>): string {
+  const at = slot.at;
+  const date = `${at.getFullYear()}-${String(at.getMonth() + 1).padStart(2, '0')}-${String(at.getDate()).padStart(2, '0')}`;
+  return `${slot.activity_name.trim().toLowerCase()}|${date}|${slot.time}`;
+}
+
+function pickSlotFields(record: SlotFields): Omit<SlotFields, 'recorded_at'> {
+  return { key: record.key, activity: record.activity, date: record.date, time: record.time, at: record.at, club: record.club };
+}
+
+export class BookingHistory {
+  private filePath: string;
+  private records: HistoryRecord[];
+
+  constructor(filePath: string = process.env.DATABASE_PATH || relativePath('./data/booking_history.jsonl')) {
+    this.filePath = filePath;
+    this.records = this.load();
+  }
+
+  private load(): HistoryRecord[] {
+    if (!existsSync(this.filePath)) {
+      return [];
+    }
+
+    const records: HistoryRecord[] = [];
+    try {
+      const lines = readFileSync(this.filePath, 'utf-8').split('\n');
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          records.push(JSON.parse(line));
+        } catch {
+          log.warn(`Skipping corrupt history line: ${line.slice(0, 80)}`);
+        }
+      }
+    } catch (error) {
+      log.warn(`Could not load booking history: ${error}`);
+    }
+    return records;
+  }
+
+  private append(records: HistoryRecord[]): void {
+    if (records.length === 0) return;
+
+    this.records.push(...records);
+    try {
+      const dir = dirname(this.filePath);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+      appendFileSync(this.filePath, records.map(record => JSON.stringify(record)).join('\n') + '\n');
+    } catch (error) {
+      log.error(`Could not write booking history: ${error}`);
+    }
+  }
+
+  private slotFields(slot: SlotInfo | SlotFields): SlotFields {
+    if ('key' in slot) {
+      return { ...pickSlotFields(slot), recorded_at: now().toISOString() };
+    }
+    return {
+      key: slotKey(slot),
+      activity: slot.activity_name,
+      date: slot.date,
+      time: slot.time,
+      at: slot.at.toISOString(),
+      club: slot.club,
+      recorded_at: now().toISOString(),
+    };
+  }
+
+  /**
+   * Record every slot seen on the planning.
+   * Only status changes are appended so retry bursts don't flood the journal.
+   */
+  recordSeen(slots: SlotInfo[]): void {
+    const lastSeen = new Map<string, SeenRecord>();
+    for (const record of this.records) {
+      if (record.type === 'seen') lastSeen.set(record.key, record);
+    }
+
+    const changed = slots.filter(slot => {
+      const previous = lastSeen.get(slotKey(slot));
+      return !previous ||
+        previous.status !== slot.status ||
+        previous.is_available !== slot.is_available ||
+        previous.waitlist_position !== slot.waitlist_position;
+    });
+
+    this.append(changed.map(slot => ({
+      type: 'seen' as const,
+      ...this.slotFields(slot),
+      status: slot.status,
+      is_available: slot.is_available,
+      waitlist_position: slot.waitlist_position,
+    })));
+  }
+
+  /**
+   * Record a booking attempt and its outcome (toast text or error as message)
+   */
+  recordAttempt(slot: SlotInfo, outcome: AttemptOutcome, message?: string): void {
+    this.append([{
+      type: 'attempt',
+      ...this.slotFields(slot),
+      outcome,
+      message,
+    }]);
+  }
+
+  /**
+   * Whether a booking for this slot was already confirmed in a previous attempt
+   * (booked directly or promoted from the waiting list)
+   */
+  isConfirmed(slot: SlotInfo): boolean {
+    const key = slotKey(slot);
+    return this.records.some(record =>
+      record.type === 'attempt' && record.key === key && (record.outcome === 'booked' || record.outcome === 'promoted'));
+  }
+
+  /**
+   * All attempts recorded for a slot, oldest first
+   */
+  attemptsFor(slot: SlotInfo): AttemptRecord[] {
+    const key = slotKey(slot);
+    return this.records.filter((record): record is AttemptRecord => record.type === 'attempt' && record.key === key);
+  }
+
+  /**
+   * Record a decision on a booking: a cancellation, or an attendance confirmation
+   */
+  recordDecision(slot: SlotInfo | SlotFields, action: DecisionAction, reason?: string): void {
+    this.append([{
+      type: 'decision',
+      ...this.slotFields(slot),
+      action,
+      reason,
+    }]);
+  }
+
+  private lastDecision(slot: SlotInfo): DecisionRecord | undefined {
+    const key = slotKey(slot);
+    return this.records.filter((record): record is DecisionRecord => record.type === 'decision' && record.key === key).at(-1);
+  }
+
+  /**
+   * Whether the booking of this slot was cancelled (it must not be booked again)
+   */
+  isCancelled(slot: SlotInfo): boolean {
+    return this.lastDecision(slot)?.action === 'cancelled';
+  }
+
+  /**
+   * Whether attendance of this slot was confirmed by the member
+   */
+  isAttendanceConfirmed(slot: SlotInfo): boolean {
+    return this.lastDecision(slot)?.action === 'confirmed';
+  }
+
+  /**
+   * Find the latest confirmed booking matching an activity, a date and optionally a time
+   * @param activity - Activity name (substring match, case-insensitive)
+   * @param date - Date as displayed ("Monday 2 December") or part of it ("2 December")
+   */
+  findBooking(activity: string, date: string, time?: string): AttemptRecord | null {
+    const matches = this.records.filter((record): record is AttemptRecord =>
+      record.type === 'attempt' &&
+      (record.outcome === 'booked' || record.outcome === 'promoted') &&
+      record.activity.toLowerCase().includes(activity.toLowerCase()) &&
+      record.date.toLowerCase().includes(date.toLowerCase()) &&
+      (!time || record.time === time)
+    );
+    return matches.at(-1) ?? null;
+  }
+
+  /**
+   * Latest status of every class booked, waitlisted or cancelled, in journal order
+   */
+  bookingStates(): BookingState[] {
+    const states = new Map<string, BookingState>();
+
+    for (const record of this.records) {
+      let status: BookingStatus | null = null;
+      if (record.type === 'attempt' && (record.outcome === 'booked' || record.outcome === 'promoted')) {
+        status = 'booked';
+      } else if (record.type === 'attempt' && record.outcome === 'waitlisted') {
+        status = 'waitlisted';
+      } else if (record.type === 'decision' && record.action === 'cancelled' && states.has(record.key)) {
+        status = 'cancelled';
+      }
+      if (!status) continue;
+
+      const previous = states.get(record.key);
+      if (previous?.status === status) continue;
+      states.set(record.key, {
+        ...pickSlotFields(record),
+        club: record.club ?? previous?.club,
+        status,
+        sequence: previous ? previous.sequence + 1 : 0,
+        updated_at: record.recorded_at,
+      });
+    }
+
+    return [...states.values()];
+  }
+
+  /**
+   * Per-class booking success rates over the whole journal
+   */
+  successRates(): ClassStats[] {
+    const stats = new Map<string, ClassStats>();
+
+    for (const record of this.records) {
+      if (record.type !== 'attempt') continue;
+
+      const activity = record.activity.trim();
+      const entry = stats.get(activity) ?? { activity, attempts: 0, booked: 0, failed: 0, successRate: 0 };
+      // Promotions complete an earlier waitlist attempt, they are not attempts themselves
+      if (record.outcome === 'promoted') {
+        entry.booked++;
+      } else {
+        entry.attempts++;
+      }
+      if (record.outcome === 'booked') entry.booked++;
+      if (record.outcome === 'failed') entry.failed++;
+      entry.successRate = entry.attempts > 0 ? entry.booked / entry.attempts : 0;
+      stats.set(activity, entry);
+    }
+
+    return [...stats.values()].sort((a, b) => a.activity.localeCompare(b.activity));
+  }
+}
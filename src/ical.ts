@@ -0,0 +1,149 @@
+/**
+ * iCalendar - Minimal reader and writer for the VEVENTs of an .ics file (RFC 5545)
+ * Only what blackout calendars and the bookings feed need
+ */
+
+export interface IcalEvent {
+  uid?: string;
+  summary?: string;
+  start: Date;
+  end: Date;  // Exclusive
+  location?: string;
+  description?: string;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  sequence?: number;   // Revision, increased on each change so clients apply updates
+  updated?: Date;      // LAST-MODIFIED
+}
+
+const PRODUCT_ID = '-//resamania-booker//Bookings//EN';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse the events of an iCalendar document
+ * All-day events cover whole local days; date-times without "Z" are read as local time
+ */
+export function parseIcalEvents(text: string): IcalEvent[] {
+  // Unfold continuation lines (starting with a space or tab)
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  const events: IcalEvent[] = [];
+  let current: Record<string, { params: string; value: string }> | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      continue;
+    }
+    if (line === 'END:VEVENT') {
+      const event = current && toEvent(current);
+      if (event) events.push(event);
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    const match = line.match(/^([A-Z-]+)((?:;[^:]*)?):(.*)$/);
+    if (match) {
+      current[match[1]] = { params: match[2], value: match[3] };
+    }
+  }
+
+  return events;
+}
+
+function toEvent(properties: Record<string, { params: string; value: string }>): IcalEvent | null {
+  const start = properties.DTSTART && parseIcalDate(properties.DTSTART.value);
+  if (!start) return null;
+
+  const allDay = /^\d{8}$/.test(properties.DTSTART.value);
+  const end = (properties.DTEND && parseIcalDate(properties.DTEND.value)) ||
+    new Date(start.getTime() + (allDay ? DAY_MS : 0));
+
+  return {
+    uid: properties.UID?.value,
+    summary: properties.SUMMARY && unescapeText(properties.SUMMARY.value),
+    start,
+    end,
+  };
+}
+
+/**
+ * "20261224" (local midnight), "20261224T093000" (local) or "20261224T083000Z" (UTC)
+ */
+function parseIcalDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0', utc] = match;
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)] as const;
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+}
+
+/**
+ * Render a calendar; events need a stable uid for updates and cancellations to reach subscribers
+ * @param name - Calendar name shown by calendar apps
+ */
+export function formatIcalendar(name: string, events: (IcalEvent & { uid: string })[]): string {
+  const stamp = formatIcalDate(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatIcalDate(event.start)}`,
+      `DTEND:${formatIcalDate(event.end)}`,
+      `SUMMARY:${escapeText(event.summary ?? '')}`,
+    );
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.status) lines.push(`STATUS:${event.status}`);
+    if (event.sequence !== undefined) lines.push(`SEQUENCE:${event.sequence}`);
+    if (event.updated) lines.push(`LAST-MODIFIED:${formatIcalDate(event.updated)}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * UTC date-time, e.g. "20261224T083000Z"
+ */
+function formatIcalDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+  return value.replace(/([\\;,])/g, '\\$1').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Split lines longer than 75 octets into continuation lines
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    if (Buffer.byteLength(current + char) > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
@@ -0,0 +1,318 @@
+/**
+ * Locale - Texts of the member area in each supported UI language (English, French)
+ * Card dates, statuses, button labels and toasts are read with the account's locale,
+ * detected from the page unless configured; parsed values are normalized to English
+ */
+
+import type { Page } from 'playwright';
+
+export type LocaleCode = 'en' | 'fr';
+
+export type LocaleSetting = LocaleCode | 'auto';
+
+export type ButtonLabel = 'book' | 'confirm' | 'yes' | 'joinWaitlist' | 'cancel' | 'password' | 'login' | 'next';
+
+// Why the member area or the API refused a booking
+export type BookingRefusal = 'already_booked' | 'credit_insufficient' | 'quota_exceeded' | 'full';
+
+export interface Locale {
+  code: LocaleCode;
+  weekdays: string[];  // Sunday first, like Date.getDay()
+  months: string[];
+  statuses: {
+    signedUp: RegExp;
+    onWaitingList: RegExp;     // Member is on the waiting list
+    full: RegExp;
+    waitingList: RegExp;       // Any mention of the waiting list, checked after "full"
+    remainingPlaces: RegExp;   // Group 1: number of places left
+  };
+  cardFields: {
+    coach: RegExp;     // Group 1: coach name
+    room: RegExp;      // Group 1: room label, e.g. "Studio A" on its own or after "Room:"
+    capacity: RegExp;  // Group 1: places taken, group 2: places in the class
+  };
+  buttons: Record<ButtonLabel, string[]>;  // Case-insensitive substrings of the button text
+  bookingSuccess: RegExp;                  // Toast text of a successful booking
+  bookingRefusals: Record<BookingRefusal, RegExp>;  // Toast or API message of a refused booking
+  waitlistPosition: RegExp[];              // Group 1: position on the waiting list
+}
+
+export interface CardDate {
+  locale: LocaleCode;
+  weekday: number;  // 0 = Sunday
+  day: number;
+  month: number;    // 0 = January
+}
+
+const EN: Locale = {
+  code: 'en',
+  weekdays: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'],
+  months: ['January', 'February', 'March', 'April', 'May', 'June',
+           'July', 'August', 'September', 'October', 'November', 'December'],
+  statuses: {
+    signedUp: /Signed up/,
+    onWaitingList: /\bon\s+(the\s+)?waiting\s+list/i,
+    full: /Full/,
+    waitingList: /waiting\s+list/i,
+    remainingPlaces: /(\d+)\s+remaining place/,
+  },
+  cardFields: {
+    coach: /^(?:with|coach)\s*:?\s+(.+)$/im,
+    room: /^(?:(?:room|studio)\s*:\s*|(?=(?:room|studio)\s))(.+)$/im,
+    capacity: /(\d+)\s*\/\s*(\d+)\s*(?:booked|places|spots|participants)?/i,
+  },
+  buttons: {
+    book: ['Book'],
+    confirm: ['Confirm'],
+    yes: ['Yes'],
+    joinWaitlist: ['waiting list', 'Join'],
+    cancel: ['Cancel', 'Unsubscribe'],
+    password: ['password', 'fill'],
+    login: ['log', 'connect', 'submit'],
+    next: ['Next'],
+  },
+  bookingSuccess: /success|booked|confirmed/i,
+  bookingRefusals: {
+    already_booked: /already\s+(?:booked|registered|signed\s+up|enrolled)|already\s+have\s+a\s+(?:booking|reservation)/i,
+    credit_insufficient: /(?:insufficient|not\s+(?:have\s+)?enough|no)\s+(?:credits?|balance|funds|sessions|tokens)\b|credits?\s+(?:insufficient|exhausted|expired)|no\s+(?:valid\s+)?(?:subscription|membership|pass)\b/i,
+    quota_exceeded: /quota|(?:booking|reservation)\s+limit|limit\s+(?:reached|exceeded)|maximum\s+(?:number\s+of\s+)?(?:bookings|reservations)|too\s+many\s+(?:bookings|reservations)/i,
+    full: /\bfull\b|no\s+(?:more\s+)?(?:places|spots|seats)|sold\s+out/i,
+  },
+  waitlistPosition: [
+    /position\s*:?\s*#?(\d+)/i,
+    /#?(\d+)(?:st|nd|rd|th)?\s+(?:on|in)\s+(?:the\s+)?waiting\s+list/i,
+  ],
+};
+
+const FR: Locale = {
+  code: 'fr',
+  weekdays: ['dimanche', 'lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi'],
+  months: ['janvier', 'février', 'mars', 'avril', 'mai', 'juin',
+           'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre'],
+  statuses: {
+    // The member's own status, not attendance such as "12 inscrits" or "1/20 inscrit"
+    signedUp: /^\s*inscrite?(?:\s*\(e\))?\s*$|vous\s+êtes\s+inscrite?(?:\s*\(e\))?(?!\s+(?:en|sur)\s+(?:la\s+)?liste)/im,
+    onWaitingList: /\b(?:en|sur)\s+(?:la\s+)?liste\s+d['’]attente/i,
+    full: /Complet/,
+    waitingList: /liste\s+d['’]attente/i,
+    remainingPlaces: /(\d+)\s+places?\s+(?:restantes?|disponibles?)/i,
+  },
+  cardFields: {
+    coach: /^(?:avec|coach)\s*:?\s+(.+)$/im,
+    room: /^(?:(?:salle|studio)\s*:\s*|(?=(?:salle|studio)\s))(.+)$/im,
+    capacity: /(\d+)\s*\/\s*(\d+)\s*(?:inscrits?|places|participants)?/i,
+  },
+  buttons: {
+    book: ['Réserver', "S'inscrire", 'S’inscrire'],
+    confirm: ['Confirmer', 'Valider'],
+    yes: ['Oui'],
+    joinWaitlist: ["liste d'attente", 'liste d’attente', 'Rejoindre'],
+    cancel: ['Annuler', 'Désinscrire', 'Désinscription'],
+    password: ['mot de passe'],
+    login: ['connexion', 'connecter'],
+    next: ['Suivant'],
+  },
+  bookingSuccess: /succès|réussi|réservé|confirmé|enregistré|validé/i,
+  bookingRefusals: {
+    already_booked: /déjà\s+(?:inscrite?|réservée?|enregistrée?)|avez\s+déjà\s+une\s+réservation/i,
+    credit_insufficient: /crédits?\s+insuffisants?|pas\s+(?:assez|suffisamment)\s+de\s+crédits?|(?:plus|aucun)\s+(?:de\s+)?crédits?|solde\s+insuffisant|aucun\s+(?:abonnement|forfait)|abonnement\s+(?:expiré|invalide|inactif)/i,
+    quota_exceeded: /quota|limite|nombre\s+maximum|trop\s+de\s+réservations/i,
+    full: /\bcomplet\b|plus\s+de\s+places?|aucune\s+place/i,
+  },
+  waitlistPosition: [
+    /position\s*:?\s*n?°?\s*#?(\d+)/i,
+    /(\d+)(?:e|ème|eme|er)?\s+(?:sur|en|dans)\s+(?:la\s+)?liste\s+d['’]attente/i,
+  ],
+};
+
+export const LOCALES: Record<LocaleCode, Locale> = { en: EN, fr: FR };
+
+export const DEFAULT_LOCALE: LocaleCode = 'en';
+
+// "Monday 2 December", "lundi 1er décembre", "Mon. 2 Dec"
+const CARD_DATE_PATTERN = /(\p{L}+)\.?,?\s+(\d{1,2})(?:er|st|nd|rd|th)?\s+(\p{L}+)\.?/gu;
+
+/**
+ * Lowercase without diacritics, so "Décembre", "décembre" and "decembre" compare equal
+ */
+function fold(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+/**
+ * Index of a weekday or month name, full or abbreviated to at least three letters
+ * @returns -1 when the word is unknown or ambiguous ("jui" for juin / juillet)
+ */
+function nameIndex(word: string, names: string[]): number {
+  const folded = fold(word);
+  const exact = names.findIndex(name => fold(name) === folded);
+  if (exact !== -1 || folded.length < 3) return exact;
+
+  const prefixed = names.flatMap((name, i) => fold(name).startsWith(folded) ? [i] : []);
+  return prefixed.length === 1 ? prefixed[0] : -1;
+}
+
+/**
+ * Find the first "weekday day month" date of a text
+ * @param locale - Only read this locale (default: try each locale, English first)
+ */
+export function parseCardDate(text: string, locale?: LocaleCode): CardDate | null {
+  const candidates = locale ? [LOCALES[locale]] : Object.values(LOCALES);
+
+  const pattern = new RegExp(CARD_DATE_PATTERN);
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    // Matches may overlap ("Coach 3 Monday 2 December"): resume after the first word
+    pattern.lastIndex = match.index + match[1].length;
+    for (const candidate of candidates) {
+      const weekday = nameIndex(match[1], candidate.weekdays);
+      const month = nameIndex(match[3], candidate.months);
+      if (weekday !== -1 && month !== -1) {
+        return { locale: candidate.code, weekday, day: Number(match[2]), month };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Weekday (0 = Sunday) of a text: the weekday of its date, else the first weekday name found
+ */
+export function parseWeekday(text: string, locale?: LocaleCode): number | null {
+  const date = parseCardDate(text, locale);
+  if (date) return date.weekday;
+
+  const words = fold(text).split(/[^\p{L}]+/u);
+  for (const candidate of locale ? [LOCALES[locale]] : Object.values(LOCALES)) {
+    const index = candidate.weekdays.findIndex(name => words.includes(fold(name)));
+    if (index !== -1) return index;
+  }
+  return null;
+}
+
+/**
+ * Status of a planning card, in the English terms used throughout the booker:
+ * "Signed up", "On waiting list", "Full", "N remaining places" or "Available"
+ */
+export function cardStatus(cardText: string, locale: Locale): string {
+  const { statuses } = locale;
+  if (statuses.signedUp.test(cardText)) return 'Signed up';
+  if (statuses.onWaitingList.test(cardText)) return 'On waiting list';
+  if (statuses.full.test(cardText)) return 'Full';
+  if (statuses.waitingList.test(cardText)) return 'On waiting list';
+
+  const remaining = cardText.match(statuses.remainingPlaces);
+  return remaining ? `${remaining[1]} remaining places` : 'Available';
+}
+
+/**
+ * Coach, room and places of a planning card, when the card shows them
+ */
+export function cardDetails(cardText: string, locale: Locale): {
+  coach?: string;
+  room?: string;
+  capacity?: number;
+  remaining_places?: number;
+} {
+  const { cardFields, statuses } = locale;
+  const coach = cardText.match(cardFields.coach)?.[1].trim();
+  const room = cardText.match(cardFields.room)?.[1].trim();
+  const places = cardText.match(cardFields.capacity);
+  const capacity = places ? Number(places[2]) : undefined;
+
+  const remaining = cardText.match(statuses.remainingPlaces);
+  let remainingPlaces: number | undefined;
+  if (remaining) {
+    remainingPlaces = Number(remaining[1]);
+  } else if (places) {
+    remainingPlaces = Math.max(Number(places[2]) - Number(places[1]), 0);
+  } else if (statuses.full.test(cardText)) {
+    remainingPlaces = 0;
+  }
+
+  return { coach: coach || undefined, room: room || undefined, capacity, remaining_places: remainingPlaces };
+}
+
+/**
+ * Every locale, the given one first
+ */
+function localesFrom(locale?: Locale): Locale[] {
+  return locale ? [locale, ...Object.values(LOCALES).filter(other => other !== locale)] : Object.values(LOCALES);
+}
+
+/**
+ * Reason of a refused booking from its toast, which may also confirm the booking:
+ * "already booked" is checked first as it reads like a success too, then a success toast
+ * (e.g. "Booking confirmed, 1 credit used") is no refusal, then the other refusals
+ * @returns null for a success toast or one that matches no known refusal
+ */
+export function toastRefusal(toastText: string, locale?: Locale): BookingRefusal | null {
+  const candidates = localesFrom(locale);
+  if (candidates.some(candidate => candidate.bookingRefusals.already_booked.test(toastText))) {
+    return 'already_booked';
+  }
+  if (candidates.some(candidate => candidate.bookingSuccess.test(toastText))) {
+    return null;
+  }
+  return bookingRefusal(toastText, locale);
+}
+
+/**
+ * Reason of a refused booking from its toast or API message
+ * @param locale - Locale tried first; the others follow, as API messages may not match the UI language
+ * @returns null when the message matches no known refusal
+ */
+export function bookingRefusal(message: string, locale?: Locale): BookingRefusal | null {
+  for (const candidate of localesFrom(locale)) {
+    const refusal = (Object.keys(candidate.bookingRefusals) as BookingRefusal[])
+      .find(reason => candidate.bookingRefusals[reason].test(message));
+    if (refusal) return refusal;
+  }
+  return null;
+}
+
+/**
+ * Button labels of every locale, for pages read before the locale is known (login)
+ */
+export function allButtonLabels(label: ButtonLabel): string[] {
+  return Object.values(LOCALES).flatMap(locale => locale.buttons[label]);
+}
+
+/**
+ * Guess the locale of a page text from its weekday and month names
+ * @returns null when no name of any locale is found
+ */
+export function detectLocale(text: string): LocaleCode | null {
+  const words = fold(text).split(/[^\p{L}]+/u);
+  let best: { code: LocaleCode; score: number } | null = null;
+
+  for (const locale of Object.values(LOCALES)) {
+    const names = new Set([...locale.weekdays, ...locale.months].map(fold));
+    const score = words.filter(word => names.has(word)).length;
+    if (score > 0 && (!best || score > best.score)) {
+      best = { code: locale.code, score };
+    }
+  }
+
+  return best?.code ?? null;
+}
+
+/**
+ * Locale of a member area page: from its text, else its lang attribute, else English
+ * @param setting - Configured locale; only 'auto' looks at the page
+ */
+export async function resolvePageLocale(page: Page, setting: LocaleSetting = 'auto'): Promise<Locale> {
+  if (setting !== 'auto') {
+    return LOCALES[setting];
+  }
+
+  const text = await page.innerText('body').catch(() => '');
+  const detected = detectLocale(text);
+  if (detected) {
+    return LOCALES[detected];
+  }
+
+  const lang = (await page.getAttribute('html', 'lang').catch(() => null))?.slice(0, 2).toLowerCase();
+  return lang && lang in LOCALES ? LOCALES[lang as LocaleCode] : LOCALES[DEFAULT_LOCALE];
+}
@@ -0,0 +1,79 @@
+/**
+ * File Lock - Keeps a single scheduler instance running per data directory
+ * The lock file holds the owner's pid; locks left by dead processes are taken over
+ */
+
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { log } from './logger.js';
+
+export interface LockInfo {
+  pid: number;
+  started_at: string;
+}
+
+export class FileLock {
+  private held = false;
+
+  constructor(private path: string) {}
+
+  /**
+   * Take the lock
+   * @returns false if another live process holds it
+   */
+  acquire(): boolean {
+    mkdirSync(dirname(this.path), { recursive: true });
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        const info: LockInfo = { pid: process.pid, started_at: new Date().toISOString() };
+        writeFileSync(this.path, JSON.stringify(info), { flag: 'wx' });
+        this.held = true;
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+
+      const holder = this.holder();
+      if (holder && isAlive(holder.pid)) {
+        return false;
+      }
+
+      // Stale lock (dead process, or a previous container reusing our pid)
+      log.warn(`⚠ Removing stale lock ${this.path}${holder ? ` (pid ${holder.pid})` : ''}`);
+      unlinkSync(this.path);
+    }
+
+    return false;
+  }
+
+  /**
+   * Current owner of the lock, if any
+   */
+  holder(): LockInfo | null {
+    if (!existsSync(this.path)) return null;
+    try {
+      return JSON.parse(readFileSync(this.path, 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  release(): void {
+    if (!this.held) return;
+    this.held = false;
+    if (this.holder()?.pid === process.pid) {
+      unlinkSync(this.path);
+    }
+  }
+}
+
+function isAlive(pid: number): boolean {
+  if (pid === process.pid) return false;
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Logger - Leveled logging, as readable text or as JSON lines for log shippers
+ * LOG_LEVEL (DEBUG, INFO, WARN, ERROR) and LOG_FORMAT (text, json) are read on each call;
+ * fields set with withLogContext (run id, profile, slot) are attached to every JSON entry
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export type LogOutput = 'stdout' | 'stderr';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const RULE_WIDTH = 60;
+
+const contextStorage = new AsyncLocalStorage<LogFields>();
+
+let output: LogOutput = 'stdout';
+
+/**
+ * Stream of debug and info entries; warnings and errors always go to stderr.
+ * `--json` sends the whole log to stderr, keeping stdout for the JSON result
+ */
+export function setLogOutput(stream: LogOutput): void {
+  output = stream;
+}
+
+/**
+ * Run `fn` with extra context fields on every entry it logs, including from awaited calls
+ */
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...fields }, fn);
+}
+
+/**
+ * Context fields of the current call (run id, profile, slot), empty outside withLogContext
+ */
+export function logContext(): LogFields {
+  return { ...contextStorage.getStore() };
+}
+
+/**
+ * Minimum level to log (LOG_LEVEL, default INFO; WARNING is accepted for WARN)
+ */
+export function logLevel(): LogLevel {
+  const level = (process.env.LOG_LEVEL || 'info').toLowerCase();
+  if (level === 'warning') return 'warn';
+  return level in LEVELS ? level as LogLevel : 'info';
+}
+
+export function isJsonLogFormat(): boolean {
+  return (process.env.LOG_FORMAT || 'text').toLowerCase() === 'json';
+}
+
+/**
+ * In text format only the message is printed (plus a `stack` field, if any);
+ * in JSON format each call is one line with the time, level, message and all fields.
+ * Debug and info entries go to stdout, or stderr after setLogOutput('stderr');
+ * warnings and errors go to stderr.
+ */
+export class Logger {
+  constructor(private fields: LogFields = {}) {}
+
+  /**
+   * Logger adding these fields to every entry
+   */
+  child(fields: LogFields): Logger {
+    return new Logger({ ...this.fields, ...fields });
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  /**
+   * Section title framed by rules (a plain info entry in JSON format)
+   */
+  banner(title: string, fields?: LogFields): void {
+    this.rule(true);
+    this.info(title, fields);
+    this.rule();
+  }
+
+  /**
+   * Separator line, text format only
+   * @param spaced - Print an empty line before the rule
+   */
+  rule(spaced: boolean = false): void {
+    if (isJsonLogFormat() || LEVELS.info < LEVELS[logLevel()]) return;
+    infoPrinter()((spaced ? '\n' : '') + '='.repeat(RULE_WIDTH));
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (LEVELS[level] < LEVELS[logLevel()]) return;
+
+    const print = level === 'error' ? console.error : level === 'warn' ? console.warn : infoPrinter();
+
+    if (isJsonLogFormat()) {
+      const entry = {
+        time: new Date().toISOString(),
+        level,
+        msg: message.trim(),
+        ...contextStorage.getStore(),
+        ...this.fields,
+        ...fields,
+      };
+      print(JSON.stringify(entry, (_key, value) => value instanceof Error ? String(value) : value));
+      return;
+    }
+
+    print(message);
+    if (typeof fields.stack === 'string') {
+      print(fields.stack);
+    }
+  }
+}
+
+/**
+ * Console function printing debug and info entries to the current output
+ */
+function infoPrinter(): (line: string) => void {
+  return output === 'stderr' ? console.error : console.log;
+}
+
+export const log = new Logger();
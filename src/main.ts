@@ -3,92 +3,194 @@
  * Scrapes and books in a single browser session
  */
 
-import { chromium } from 'playwright';
-import { readFileSync } from 'fs';
+import { chromium, type Browser, type BrowserContext, type BrowserContextOptions, type Page } from 'playwright';
 import * as dotenv from 'dotenv';
 import { ResamaniaAuth } from './auth.js';
-import { ResamaniaSlotBooker, TargetClass, BookingSettings } from './booker.js';
-import { dirname, join } from 'path';
-import { fileURLToPath } from 'url';
+import { ResamaniaSlotBooker, BookingSettings, BookingResult, SlotBookingDetail, SlotInfo, slotToJson } from './booker.js';
+import { findTargetMatch, slotMatchesTarget, targetActivities } from './matching.js';
+import { ResamaniaApiClient } from './api.js';
+import { BookingHistory, slotKey } from './history.js';
+import { NotificationDispatcher } from './notifier.js';
+import { formatSlotDate, formatSlotTime, relativePath } from './utils.js';
+import {
+  ReservationReader,
+  Reservation,
+  ReconciliationReport,
+  bookingsUrlFromPlanningUrl,
+  reconcileReservations,
+} from './reservations.js';
+import { ResolvedProfile, profileNames, resolveProfile } from './profiles.js';
+import { Club, clubsForTargets, resolveClubs, resolveLoginUrl } from './clubs.js';
+import {
+  BookingSettingsConfig,
+  Config,
+  DEFAULT_CONFIG_PATH,
+  DEFAULT_RETRY_ATTEMPTS,
+  RUN_LOOP_DEFAULTS,
+  RunSchedule,
+  loadConfig,
+} from './config.js';
+import { SNIPER_DEFAULTS, ServerClock, SnipeOutcome, upcomingBookingWindows } from './sniper.js';
+import { BookingPolicy } from './policy.js';
+import { randomUUID } from 'crypto';
+import { setTimeout as sleep } from 'timers/promises';
+import { log, withLogContext } from './logger.js';
+import { now } from './clock.js';
+import { RunReport } from './report.js';
+import { DEFAULT_CALENDAR_FILE, renderBookingCalendar, writeCalendarFile } from './calendar.js';
+import { FailureRecorder } from './diagnostics.js';
+import { SlotWatcher, WATCHER_DEFAULTS, describeChange, pollDelayMs, type SlotChange, type WatchEvent } from './watcher.js';
 
 // Load environment variables
 dotenv.config();
 
-const relativePath = (path: string) => {
-  const __filename = fileURLToPath(import.meta.url);
-  const __dirname = dirname(__filename);
-  return join(__dirname, '..', path);
+export interface RunResult {
+  profile: string;
+  success: boolean;
+  attempts: number;
+  bookedCount: number;
+  waitlistedCount: number;
+  elapsedSeconds: number;
+  error?: string;
+  runId?: string;           // Run id attached to the run's log entries
+  reportPath?: string;      // JSON run report (retry loop only)
+  snipes?: SnipeOutcome[];  // Sniper mode only
+  watchEvents?: number;     // Watch mode only: planning changes detected
 }
 
-interface Config {
-  resamania: {
-    planning_url: string;
-    login_url: string;
-  };
-  target_classes: TargetClass[];
-  booking_settings: {
-    headless: boolean;
-    slow_mo: number;
-    min_hours_from_now?: number;
-    max_days_from_now?: number;
-  };
-  username?: string;
-  password?: string;
+/**
+ * Short random id tying together the log entries and the report of a run
+ */
+function newRunId(): string {
+  return randomUUID().slice(0, 8);
+}
+
+// Failed polls in a row after which watch mode gives up
+const MAX_WATCH_FAILURES = 5;
+
+/**
+ * Launch Chromium (HEADLESS_BROWSER is applied to the settings by the config loader)
+ */
+export async function launchBrowser(settings?: Partial<BookingSettingsConfig>): Promise<Browser> {
+  const headlessMode = settings?.headless ?? true;
+
+  const browser = await chromium.launch({
+    headless: headlessMode,
+    slowMo: settings?.slow_mo ?? 100
+  });
+
+  log.info(`Browser mode: ${headlessMode ? 'headless' : 'headed'}`);
+  return browser;
 }
 
 export class ResamaniaBooker {
   private config: Config;
+  private profile: ResolvedProfile;
   private auth: ResamaniaAuth;
+  private history: BookingHistory;
+  private notifier: NotificationDispatcher;
+  private clubs: Club[];
+  private sharedBrowser: Browser | null = null;
 
-  constructor(configPath: string = relativePath('./config.json')) {
-    this.config = this.loadConfig(configPath);
-    this.auth = new ResamaniaAuth(this.config);
-  }
+  /**
+   * @param profileName - Profile to run as; the first (or default) profile when omitted
+   */
+  constructor(configPath: string = DEFAULT_CONFIG_PATH, profileName?: string) {
+    this.profile = resolveProfile(loadConfig(configPath), profileName);
+    this.config = this.profile.config;
 
-  private loadConfig(configPath: string): Config {
-    try {
-      const config = JSON.parse(readFileSync(configPath, 'utf-8'));
+    // Add credentials from environment
+    this.config.username = process.env[this.profile.usernameEnv];
+    this.config.password = process.env[this.profile.passwordEnv];
+
+    // Validate credentials exist
+    if (!this.config.username || !this.config.password) {
+      throw new Error(`${this.profile.usernameEnv} and ${this.profile.passwordEnv} must be set in environment (profile "${this.profile.name}")`);
+    }
 
-      // Add credentials from environment
-      config.username = process.env.RESAMANIA_USERNAME;
-      config.password = process.env.RESAMANIA_PASSWORD;
+    // Derive brand URLs and attach targets without a club to the default club
+    this.clubs = resolveClubs(this.config.resamania);
+    this.config.resamania.login_url = resolveLoginUrl(this.config.resamania);
+    this.config.target_classes = (this.config.target_classes || []).map(target => ({
+      ...target,
+      club: target.club ?? this.clubs[0].name,
+    }));
 
-      // Validate credentials exist
-      if (!config.username || !config.password) {
-        console.error('Error: RESAMANIA_USERNAME and RESAMANIA_PASSWORD must be set in environment');
-        process.exit(1);
-      }
+    this.auth = new ResamaniaAuth(this.config, this.profile.sessionFile);
+    this.history = new BookingHistory(this.profile.historyFile ? relativePath(this.profile.historyFile) : undefined);
+    this.notifier = NotificationDispatcher.fromEnvironment(this.config.notification_settings);
+  }
 
-      return config;
-    } catch (error) {
-      console.error(`Error: Config file not found: ${configPath}`);
-      process.exit(1);
-    }
+  /**
+   * Names of the profiles defined in a config file
+   */
+  static profileNames(configPath: string = DEFAULT_CONFIG_PATH): string[] {
+    return profileNames(loadConfig(configPath));
   }
 
+  /**
+   * Only book the target classes of these activities (case-insensitive)
+   */
+  restrictTargets(activities: string[]): void {
+    const wanted = activities.map(activity => activity.toLowerCase());
+    this.config.target_classes = this.config.target_classes.filter(target =>
+      wanted.includes(target.activity.toLowerCase()));
+  }
 
-  async run(maxRetries: number = 15): Promise<void> {
-    console.log('Starting Resamania automated booking...');
-    console.log('='.repeat(60));
-    console.log(`Max retries: ${maxRetries}`);
+  /**
+   * Run sessions in a context of this browser instead of launching one
+   */
+  useBrowser(browser: Browser): void {
+    this.sharedBrowser = browser;
+  }
 
-    // Use environment variable for headless mode, fallback to config, default to true
-    const headlessMode = process.env.HEADLESS_BROWSER === 'false'
-      ? false
-      : (process.env.HEADLESS_BROWSER === 'true'
-        ? true
-        : (this.config.booking_settings?.headless ?? true));
 
-    const browser = await chromium.launch({
-      headless: headlessMode,
-      slowMo: this.config.booking_settings?.slow_mo ?? 100
+  /**
+   * Build an API client from the saved session token, if the API is enabled and configured
+   */
+  private createApiClient(): ResamaniaApiClient | null {
+    const { api_url, club_id } = this.config.resamania;
+    if (this.config.booking_settings?.use_api === false || !api_url || !club_id) {
+      return null;
+    }
+
+    const token = this.auth.getAccessToken();
+    if (!token) {
+      log.info('No API token in saved session - using planning page');
+      return null;
+    }
+
+    return new ResamaniaApiClient({ apiUrl: api_url, clubId: club_id }, token);
+  }
+
+  /**
+   * Notify about a failure of the whole run (not tied to a slot)
+   */
+  private async notifyRunFailure(reason: string): Promise<void> {
+    const at = now();
+    await this.notifier.notify({
+      event: 'failure',
+      activity: 'Booking run',
+      date: formatSlotDate(at),
+      time: formatSlotTime(at),
+      status: 'Error',
+      reason,
     });
+  }
 
-    console.log(`Browser mode: ${headlessMode ? 'headless' : 'headed'}`);
+  /**
+   * Open a browser, restore or refresh the login session, and hand a ready
+   * session to `fn`. The browser is always closed afterwards.
+   * @returns the callback result, or null if login failed
+   */
+  private async withSession<T>(fn: (session: BookingSession) => Promise<T>): Promise<T | null> {
+    const browser = this.sharedBrowser ?? await launchBrowser(this.config.booking_settings);
+    let context: BrowserContext | null = null;
+    const diagnostics = new FailureRecorder(this.profile.name, this.config.diagnostics);
 
     try {
-      // Create browser context
-      const contextOptions: any = {
+      // Create an isolated browser context for this profile
+      const contextOptions: BrowserContextOptions = {
         userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
         viewport: { width: 1640, height: 1080 }
       };
@@ -96,123 +198,971 @@ export class ResamaniaBooker {
       // Load saved session if available
       const storageState = this.auth.getStorageState();
       if (storageState) {
-        console.log('✓ Found saved session, loading...');
+        log.info('✓ Found saved session, loading...');
         contextOptions.storageState = storageState;
       }
 
-      const context = await browser.newContext(contextOptions);
+      context = await browser.newContext(contextOptions);
+      await diagnostics.attach(context);
       const page = await context.newPage();
 
-      // Navigate to planning page
-      const planningUrl = this.config.resamania.planning_url;
-      console.log(`Navigating to: ${planningUrl}`);
+      // Navigate to the default club's planning page
+      const planningUrl = this.clubs[0].planning_url;
+      log.info(`Navigating to: ${planningUrl}`);
       await page.goto(planningUrl, { waitUntil: 'networkidle' });
       await page.waitForTimeout(2000);
 
       // Check if we need to login
       if (this.auth.isOnLoginPage(page)) {
-        console.log('⚠ Session expired - logging in...');
+        if (storageState) {
+          // Saved session was rejected by the server
+          this.auth.invalidateSession();
+        }
+        log.info('⚠ Session expired - logging in...');
         if (!await this.auth.loginBrowser(page, context)) {
-          console.error('Login failed');
-          await browser.close();
-          return;
+          log.error('Login failed');
+          await diagnostics.capture(page, 'login');
+          await this.notifyRunFailure('Login failed');
+          return null;
         }
-        console.log('✓ Login successful');
+        log.info('✓ Login successful');
         await page.waitForTimeout(3000);
+        await this.auth.saveSession(context);
       } else {
-        console.log(`✓ Session valid! On page: ${page.url()}`);
+        log.info(`✓ Session valid! On page: ${page.url()}`);
       }
 
       // Create slot booker with booking settings
+      const settings = this.config.booking_settings;
       const bookingSettings: BookingSettings = {
-        minHoursFromNow: this.config.booking_settings?.min_hours_from_now,
-        maxDaysFromNow: this.config.booking_settings?.max_days_from_now
+        minHoursFromNow: settings?.min_hours_from_now,
+        maxDaysFromNow: settings?.max_days_from_now,
+        retryAttempts: settings?.retry_on_failure ? settings.retry_attempts ?? DEFAULT_RETRY_ATTEMPTS : 0,
+        retryDelaySeconds: settings?.retry_delay_seconds,
+        locale: settings?.locale,
       };
-      const slotBooker = new ResamaniaSlotBooker(this.config.target_classes || [], bookingSettings);
-
-      // Retry logic: keep trying maxRetries times or until we book something
-      const RETRY_INTERVAL_MS = 1000; // 1 second
-      const startTime = Date.now();
-      let totalBookedCount = 0;
-      let attemptNumber = 0;
-
-      console.log('\n' + '='.repeat(60));
-      console.log(`RETRY LOOP: Will try ${maxRetries} times or until booking succeeds`);
-      console.log('='.repeat(60));
-
-      while (attemptNumber < maxRetries) {
-        attemptNumber++;
-        const elapsedSeconds = Math.floor((Date.now() - startTime) / 1000);
-        console.log(`\n[Attempt #${attemptNumber}/${maxRetries} - ${elapsedSeconds}s elapsed]`);
-
-        // Reload page to get fresh slot data
-        if (attemptNumber > 1) {
-          console.log('Reloading page...');
-          await page.goto(planningUrl, { waitUntil: 'networkidle' });
+      const api = this.createApiClient();
+      const slotBooker = new ResamaniaSlotBooker(this.config.target_classes || [], bookingSettings, {
+        api,
+        history: this.history,
+        notifier: this.notifier,
+        policy: await BookingPolicy.load(settings?.policy),
+        diagnostics,
+      });
+      log.info(`Slot source: ${slotBooker.hasApi() ? 'API (planning page as fallback)' : 'planning page'}`);
+
+      // Read existing reservations so the booker never double-books a time slot
+      const bookingsUrl = this.config.resamania.bookings_url || bookingsUrlFromPlanningUrl(planningUrl);
+      const reservations = await new ReservationReader(bookingsUrl, api, settings?.locale, diagnostics).read(page);
+      slotBooker.setReservations(reservations);
+
+      const listSlots = async (club: Club, options: ListSlotsOptions = {}): Promise<SlotInfo[]> => {
+        if (slotBooker.hasApi()) {
+          try {
+            return await slotBooker.listSlotsFromApi(club);
+          } catch (error) {
+            log.warn(`⚠ API listing failed (${error}) - falling back to planning page`);
+            slotBooker.disableApi();
+          }
+        }
+
+        // Switch to the club's planning, or reload it to get fresh slot data
+        if (options.fresh || page.url() !== club.planning_url) {
+          log.info(`Loading planning: ${club.planning_url}`);
+          await page.goto(club.planning_url, { waitUntil: 'networkidle' });
           await page.waitForTimeout(1000);
         }
+        return slotBooker.listSlots(page, club, { activities: options.activities });
+      };
 
-        // List all slots
-        const allSlots = await slotBooker.listSlots(page);
+      const clubs = clubsForTargets(this.clubs, this.config.target_classes || []);
+      return await fn({ page, slotBooker, listSlots, reservations, clubs, allClubs: this.clubs });
+    } finally {
+      // Trace must be saved before the context closes
+      await diagnostics.finish().catch(error => log.warn(`⚠ Could not write the failure bundle: ${error}`));
+      await context?.close().catch(() => undefined);
+      if (!this.sharedBrowser) {
+        await browser.close();
+      }
+    }
+  }
+
+  /**
+   * Number of attempts of the retry loop for a kind of run (booking_settings.run_loop)
+   */
+  runAttempts(schedule: RunSchedule = 'manual'): number {
+    const runLoop = { ...RUN_LOOP_DEFAULTS, ...this.config.booking_settings?.run_loop };
+    switch (schedule) {
+      case 'manual':
+        return runLoop.attempts;
+      case 'daily':
+        return runLoop.daily_attempts;
+      case 'hourly':
+        return runLoop.hourly_attempts;
+    }
+  }
 
-        // Filter matching slots
-        const matchingSlots = slotBooker.filterMatchingSlots({ allSlots: allSlots });
+  /**
+   * Retry loop: list, match and book target classes until something is booked
+   * @param maxRetries - Number of attempts (default: booking_settings.run_loop for the schedule)
+   * @param schedule - Kind of run, selecting the configured number of attempts
+   */
+  async run(maxRetries?: number, schedule: RunSchedule = 'manual'): Promise<RunResult> {
+    const autoBook = this.config.booking_settings?.auto_book ?? true;
+    const report = new RunReport(newRunId(), this.profile.name, schedule, autoBook);
 
-        if (matchingSlots.length === 0) {
-          console.log('No matching slots found. Waiting before retry...');
-          await page.waitForTimeout(RETRY_INTERVAL_MS);
-          continue;
+    return withLogContext({ run_id: report.runId, profile: this.profile.name }, async () => {
+      const result = await this.runLoop(maxRetries ?? this.runAttempts(schedule), autoBook, report);
+      result.runId = report.runId;
+
+      report.finish(result);
+      try {
+        result.reportPath = report.save();
+        log.info(`Run report: ${result.reportPath}`);
+      } catch (error) {
+        log.warn(`⚠ Could not write run report: ${error}`);
+      }
+      this.exportCalendar();
+      return result;
+    });
+  }
+
+  /**
+   * Body of run(), reporting every slot decision and booking attempt to `report`
+   */
+  private async runLoop(maxRetries: number, autoBook: boolean, report: RunReport): Promise<RunResult> {
+    log.info(`Starting Resamania automated booking (profile: ${this.profile.name}, run ${report.runId})...`);
+    log.rule();
+    log.info(`Max retries: ${maxRetries}`);
+    if (!autoBook) {
+      log.info('auto_book is disabled - reporting matching slots without booking');
+    }
+
+    const startTime = Date.now();
+    const result: RunResult = {
+      profile: this.profile.name,
+      success: false,
+      attempts: 0,
+      bookedCount: 0,
+      waitlistedCount: 0,
+      elapsedSeconds: 0,
+    };
+
+    try {
+      const completed = await this.withSession(async ({ page, slotBooker, listSlots, clubs }) => {
+        slotBooker.setReport(report);
+
+        // Retry logic: keep trying maxRetries times or until we book something
+        const retryIntervalMs = (this.config.booking_settings?.run_loop?.interval_seconds ?? RUN_LOOP_DEFAULTS.interval_seconds) * 1000;
+        let totalBookedCount = 0;
+        let totalWaitlistedCount = 0;
+        let attemptNumber = 0;
+
+        log.rule(true);
+        log.info(`RETRY LOOP: Will try ${maxRetries} times or until booking succeeds`);
+        if (clubs.length > 1) {
+          log.info(`Clubs: ${clubs.map(club => club.name).join(', ')}`);
         }
+        log.rule();
+
+        while (attemptNumber < maxRetries) {
+          attemptNumber++;
+          report.startPass(attemptNumber);
+          const elapsedSeconds = Math.floor((Date.now() - startTime) / 1000);
+          log.info(`\n[Attempt #${attemptNumber}/${maxRetries} - ${elapsedSeconds}s elapsed]`);
+
+          let attemptBookedCount = 0;
+
+          for (const club of clubs) {
+            if (clubs.length > 1) {
+              log.info(`\n--- Club: ${club.name} ---`);
+            }
+
+            // List all slots (reloading the planning page after the first attempt)
+            const allSlots = await listSlots(club, {
+              fresh: attemptNumber > 1,
+              activities: targetActivities(this.config.target_classes || []),
+            });
+            this.history.recordSeen(allSlots);
+            await slotBooker.detectPromotions(allSlots);
+
+            // Filter matching slots
+            const matchingSlots = slotBooker.filterMatchingSlots({ allSlots: allSlots });
+
+            if (matchingSlots.length === 0) {
+              continue;
+            }
 
-        // Try to book the matching slots
-        const result = await slotBooker.bookSlots(page, matchingSlots);
+            for (const slot of matchingSlots.filter(slot => slot.is_available)) {
+              await this.notifier.notifySlot('slot_found', slot);
+            }
 
-        totalBookedCount += result.bookedCount;
+            if (!autoBook) {
+              for (const slot of matchingSlots) {
+                log.info(`  • Would book: ${slot.activity_name} ${slot.date} ${slot.time} (${slot.status})`);
+              }
+              continue;
+            }
 
-        // If we managed to book anything, we can stop
-        if (result.bookedCount > 0) {
-          console.log('\n' + '='.repeat(60));
-          console.log('✓ BOOKING SUCCESSFUL - Stopping retry loop');
-          console.log('='.repeat(60));
-          console.log(`Total slots booked: ${totalBookedCount}`);
-          break;
+            // Try to book the matching slots
+            let bookingResult;
+            try {
+              bookingResult = await slotBooker.bookSlots(page, matchingSlots);
+            } catch (error) {
+              if (!slotBooker.hasApi()) throw error;
+              log.warn(`⚠ API booking failed (${error}) - falling back to planning page`);
+              slotBooker.disableApi();
+              continue;
+            }
+
+            attemptBookedCount += bookingResult.bookedCount;
+            totalBookedCount += bookingResult.bookedCount;
+            totalWaitlistedCount += bookingResult.waitlistedCount;
+          }
+
+          // If we managed to book anything, we can stop
+          if (attemptBookedCount > 0) {
+            log.banner('✓ BOOKING SUCCESSFUL - Stopping retry loop');
+            log.info(`Total slots booked: ${totalBookedCount}`);
+            break;
+          }
+
+          // Report-only mode: one pass is enough
+          if (!autoBook) {
+            break;
+          }
+
+          // Wait before next retry (but not after the last attempt)
+          if (attemptNumber < maxRetries) {
+            log.info(`No bookings made this attempt. Waiting ${retryIntervalMs / 1000}s before next retry...`);
+            await page.waitForTimeout(retryIntervalMs);
+          }
         }
 
-        // Wait before next retry (but not after the last attempt)
-        if (attemptNumber < maxRetries) {
-          console.log(`No bookings made this attempt. Waiting ${RETRY_INTERVAL_MS / 1000}s before next retry...`);
-          await page.waitForTimeout(RETRY_INTERVAL_MS);
+        // Final summary
+        const totalElapsedSeconds = Math.floor((Date.now() - startTime) / 1000);
+        log.banner('FINAL SUMMARY');
+        log.info(`Total attempts: ${attemptNumber}`);
+        log.info(`Time elapsed: ${totalElapsedSeconds}s`);
+        log.info(`Total slots booked: ${totalBookedCount}`);
+        if (totalWaitlistedCount > 0) {
+          log.info(`Waiting lists joined: ${totalWaitlistedCount}`);
         }
+
+        const successRates = this.history.successRates();
+        if (successRates.length > 0) {
+          log.info('\nSuccess rates (all runs):');
+          for (const stats of successRates) {
+            log.info(`  ${stats.activity}: ${stats.booked}/${stats.attempts} booked (${(stats.successRate * 100).toFixed(0)}%)`);
+          }
+        }
+        log.rule();
+
+        result.attempts = attemptNumber;
+        result.bookedCount = totalBookedCount;
+        result.waitlistedCount = totalWaitlistedCount;
+        return true;
+      });
+
+      result.success = completed === true;
+      if (!completed) {
+        result.error = 'Login failed';
       }
+    } catch (error) {
+      log.error(`\nError during booking process: ${error}`, { stack: error instanceof Error ? error.stack : undefined });
+      await this.notifyRunFailure(String(error));
+      result.error = String(error);
+    }
 
-      // Final summary
-      const totalElapsedSeconds = Math.floor((Date.now() - startTime) / 1000);
-      console.log('\n' + '='.repeat(60));
-      console.log('FINAL SUMMARY');
-      console.log('='.repeat(60));
-      console.log(`Total attempts: ${attemptNumber}`);
-      console.log(`Time elapsed: ${totalElapsedSeconds}s`);
-      console.log(`Total slots booked: ${totalBookedCount}`);
-      console.log('='.repeat(60));
+    result.elapsedSeconds = Math.floor((Date.now() - startTime) / 1000);
+    return result;
+  }
 
-      await browser.close();
+  /**
+   * Whether the daily run should use sniper mode
+   */
+  isSniperEnabled(): boolean {
+    return (this.config.booking_settings?.sniper?.enabled ?? false) && this.config.booking_settings?.auto_book !== false;
+  }
+
+  /**
+   * Sniper mode: log in and load the planning before the booking windows of the
+   * target classes open, then book each class at the exact second its window opens
+   */
+  async snipe(): Promise<RunResult> {
+    const runId = newRunId();
+    return withLogContext({ run_id: runId, profile: this.profile.name }, async () => {
+      const result = await this.snipeWindows();
+      this.exportCalendar();
+      return { ...result, runId };
+    });
+  }
+
+  /**
+   * Body of snipe()
+   */
+  private async snipeWindows(): Promise<RunResult> {
+    const settings = { ...SNIPER_DEFAULTS, ...this.config.booking_settings?.sniper };
+    const maxDaysFromNow = this.config.booking_settings?.max_days_from_now ?? 4;
+
+    const startTime = Date.now();
+    const result: RunResult = {
+      profile: this.profile.name,
+      success: false,
+      attempts: 0,
+      bookedCount: 0,
+      waitlistedCount: 0,
+      elapsedSeconds: 0,
+      snipes: [],
+    };
+
+    log.info(`Starting sniper mode (profile: ${this.profile.name})...`);
+    log.rule();
+
+    const windows = upcomingBookingWindows(this.config.target_classes || [], maxDaysFromNow, now(), settings.horizon_minutes);
+    if (windows.length === 0) {
+      log.info(`No booking window opens in the next ${settings.horizon_minutes} minutes`);
+      result.success = true;
+      return result;
+    }
+
+    for (const { target, at, opensAt } of windows) {
+      log.info(`  ${target.activity} ${formatSlotDate(at)} ${target.time} - window opens at ${opensAt.toISOString()}`);
+    }
+
+    if (this.config.booking_settings?.auto_book === false) {
+      log.info('auto_book is disabled - not booking');
+      for (const { target, at, opensAt } of windows) {
+        result.snipes!.push({ activity: target.activity, at: at.toISOString(), opensAt: opensAt.toISOString(), booked: false, attempts: 0 });
+      }
+      result.success = true;
+      return result;
+    }
+
+    try {
+      const completed = await this.withSession(async ({ page, slotBooker, listSlots, reservations, allClubs }) => {
+        const { api_url } = this.config.resamania;
+        const clock = await ServerClock.sync(api_url ?? new URL(allClubs[0].planning_url).origin);
+
+        for (const { target, at, opensAt } of windows) {
+          const outcome: SnipeOutcome = {
+            activity: target.activity,
+            at: at.toISOString(),
+            opensAt: opensAt.toISOString(),
+            booked: false,
+            attempts: 0,
+          };
+          result.snipes!.push(outcome);
+
+          const club = allClubs.find(candidate => candidate.name === target.club) ?? allClubs[0];
+          log.info(`\n→ ${target.activity} ${formatSlotDate(at)} ${target.time}${allClubs.length > 1 ? ` (${club.name})` : ''}`);
 
+          if (reservations.some(reservation => reservation.at.getTime() === at.getTime() && slotMatchesTarget(reservation, target))) {
+            log.info('  ⊘ Already booked');
+            outcome.booked = true;
+            continue;
+          }
+
+          const violation = slotBooker.policyViolation({ activity_name: target.activity, time: target.time, at }, target.duration_minutes);
+          if (violation) {
+            outcome.error = `${violation.rule}: ${violation.message}`;
+            log.info(`  ⊘ Skipping - ${outcome.error}`);
+            continue;
+          }
+
+          // Prepare before the window opens: resolve the class through the API, or load the club's planning
+          let apiSlot: SlotInfo | null = null;
+          if (slotBooker.hasApi()) {
+            try {
+              apiSlot = await slotBooker.findSlotFromApi(target, at, club);
+            } catch (error) {
+              log.warn(`⚠ API lookup failed (${error}) - falling back to planning page`);
+              slotBooker.disableApi();
+            }
+          }
+          if (!apiSlot) {
+            await listSlots(club);
+          }
+
+          const waitSeconds = Math.max(0, (opensAt.getTime() - clock.now().getTime()) / 1000);
+          log.info(`  ⏳ Window opens in ${waitSeconds.toFixed(1)}s`);
+          await clock.waitUntil(opensAt);
+
+          // Already booked, quota and credit refusals will not change by reloading the planning
+          let refused = false;
+          if (apiSlot) {
+            try {
+              const booking = await slotBooker.bookAtOpening(apiSlot, settings.max_attempts, settings.retry_interval_ms);
+              outcome.booked = booking.booked;
+              outcome.attempts = booking.attempts;
+              refused = !booking.booked && booking.result !== 'full' && booking.result !== 'unknown_error';
+            } catch (error) {
+              log.warn(`⚠ API booking failed (${error}) - falling back to planning page`);
+              slotBooker.disableApi();
+            }
+          }
+
+          // Planning page: reload until the class becomes bookable
+          while (!outcome.booked && !refused && outcome.attempts < settings.max_attempts) {
+            outcome.attempts++;
+            const slot = (await listSlots(club, { fresh: true })).find(candidate =>
+              candidate.at.getTime() === at.getTime() && slotMatchesTarget(candidate, target));
+
+            if (slot?.is_available && slot.status !== 'Full') {
+              outcome.booked = (await slotBooker.bookSlots(page, [slot])).bookedCount > 0;
+            }
+            if (!outcome.booked && outcome.attempts < settings.max_attempts) {
+              await page.waitForTimeout(settings.retry_interval_ms);
+            }
+          }
+
+          if (outcome.booked) {
+            outcome.latencyMs = clock.now().getTime() - opensAt.getTime();
+            log.info(`  ⏱ Confirmed ${outcome.latencyMs}ms after the window opened (${outcome.attempts} attempt(s))`);
+            result.bookedCount++;
+          } else {
+            outcome.error = `Not booked after ${outcome.attempts} attempt(s)`;
+            log.info(`  ✗ ${outcome.error}`);
+          }
+          result.attempts += outcome.attempts;
+        }
+
+        log.banner('SNIPER SUMMARY');
+        for (const outcome of result.snipes!) {
+          const latency = outcome.latencyMs !== undefined ? ` in ${outcome.latencyMs}ms` : '';
+          log.info(`  ${outcome.booked ? '✓' : '✗'} ${outcome.activity} ${outcome.at}${latency}`);
+        }
+        log.rule();
+        return true;
+      });
+
+      result.success = completed === true;
+      if (!completed) {
+        result.error = 'Login failed';
+      }
     } catch (error) {
-      console.error(`\nError during booking process: ${error}`);
-      if (error instanceof Error) {
-        console.error(error.stack);
+      log.error(`\nError during sniper run: ${error}`);
+      await this.notifyRunFailure(String(error));
+      result.error = String(error);
+    }
+
+    result.elapsedSeconds = Math.floor((Date.now() - startTime) / 1000);
+    return result;
+  }
+
+  /**
+   * Watch mode: keep one session open, re-list the planning every few minutes and report
+   * what changed (place freed, class added or cancelled, few places left); target classes
+   * with a freed place, or newly added, are booked right away
+   */
+  async watch(options: WatchOptions = {}): Promise<RunResult> {
+    const runId = newRunId();
+    return withLogContext({ run_id: runId, profile: this.profile.name }, async () => {
+      const result = await this.watchPlanning(options);
+      if (result.bookedCount > 0) {
+        this.exportCalendar();
       }
+      return { ...result, runId };
+    });
+  }
+
+  /**
+   * Body of watch()
+   */
+  private async watchPlanning(options: WatchOptions): Promise<RunResult> {
+    const settings = { ...WATCHER_DEFAULTS, ...this.config.booking_settings?.watcher };
+    const maxPolls = options.maxPolls ?? settings.max_polls;
+    const autoBook = settings.auto_book && this.config.booking_settings?.auto_book !== false;
+    const targets = this.config.target_classes || [];
+    const maxDaysFromNow = this.config.booking_settings?.max_days_from_now ?? 4;
+
+    const startTime = Date.now();
+    const result: RunResult = {
+      profile: this.profile.name,
+      success: false,
+      attempts: 0,
+      bookedCount: 0,
+      waitlistedCount: 0,
+      elapsedSeconds: 0,
+      watchEvents: 0,
+    };
+
+    log.info(`Starting watch mode (profile: ${this.profile.name})...`);
+    log.rule();
+    log.info(`Polling every ${settings.interval_seconds}s ±${settings.jitter_seconds}s${maxPolls > 0 ? `, ${maxPolls} times` : ' until stopped'}`);
+    log.info(settings.targets_only ? 'Watching target classes only' : 'Watching every class');
+    if (!autoBook) {
+      log.info('Booking on changes is disabled - reporting changes only');
+    }
+
+    try {
+      const completed = await this.withSession(async ({ page, slotBooker, listSlots, clubs, allClubs }) => {
+        const watcher = new SlotWatcher(settings.low_places);
+        const watchedClubs = settings.targets_only ? clubs : allClubs;
+        const activities = settings.targets_only ? targetActivities(targets) : undefined;
+        const exclusive = options.exclusive ?? (<T>(task: () => Promise<T>) => task());
+        let failures = 0;
+
+        while (!options.signal?.aborted && (maxPolls === 0 || result.attempts < maxPolls)) {
+          result.attempts++;
+          log.debug(`[Poll #${result.attempts}]`);
+
+          // Listing, booking and logging in again go through the caller's queue, if any
+          await exclusive(async () => {
+            try {
+              for (const club of watchedClubs) {
+                const allSlots = await listSlots(club, { fresh: result.attempts > 1, activities });
+                this.history.recordSeen(allSlots);
+                await slotBooker.detectPromotions(allSlots);
+
+                const listedAt = now();
+                const windowEnd = new Date(listedAt.getTime() + maxDaysFromNow * 24 * 60 * 60 * 1000);
+                const changes = watcher.update(club.name, allSlots, listedAt, windowEnd)
+                  .filter(change => !settings.targets_only || findTargetMatch(change.slot, targets) !== null);
+                if (changes.length === 0) continue;
+
+                for (const change of changes) {
+                  log.info(`🔔 ${change.kind}: ${change.slot.activity_name} ${change.slot.date} ${change.slot.time} - ${describeChange(change)}`);
+                }
+
+                const bookings = autoBook
+                  ? await this.bookChanges(page, slotBooker, allSlots, changes)
+                  : new Map<string, SlotBookingDetail>();
+                for (const booking of bookings.values()) {
+                  if (booking.outcome === 'booked') result.bookedCount++;
+                  if (booking.outcome === 'waitlisted') result.waitlistedCount++;
+                }
+
+                for (const change of changes) {
+                  result.watchEvents!++;
+                  await this.notifier.notifySlot(change.kind, change.slot, describeChange(change));
+                  options.onEvent?.({
+                    kind: change.kind,
+                    detected_at: now().toISOString(),
+                    profile: this.profile.name,
+                    club: club.name,
+                    reason: describeChange(change),
+                    previous_status: change.previous?.status,
+                    slot: slotToJson(change.slot),
+                    booking: bookings.get(slotKey(change.slot)),
+                  });
+                }
+              }
+              failures = 0;
+            } catch (error) {
+              failures++;
+              if (failures >= MAX_WATCH_FAILURES) throw error;
+              log.warn(`⚠ Poll #${result.attempts} failed (${failures}/${MAX_WATCH_FAILURES} in a row): ${error}`);
+            }
+
+            // A long-lived session ends sooner or later: log in again on the same page
+            if (this.auth.isOnLoginPage(page) && !await this.restoreSession(page)) {
+              throw new Error('Login failed while watching');
+            }
+          });
+
+          if (!options.signal?.aborted && (maxPolls === 0 || result.attempts < maxPolls)) {
+            await sleep(pollDelayMs(settings), undefined, { signal: options.signal }).catch(() => undefined);
+          }
+        }
+
+        log.banner('WATCH SUMMARY');
+        log.info(`Polls: ${result.attempts}`);
+        log.info(`Changes detected: ${result.watchEvents}`);
+        log.info(`Slots booked: ${result.bookedCount}`);
+        if (result.waitlistedCount > 0) {
+          log.info(`Waiting lists joined: ${result.waitlistedCount}`);
+        }
+        log.rule();
+        return true;
+      });
+
+      result.success = completed === true;
+      if (!completed) {
+        result.error = 'Login failed';
+      }
+    } catch (error) {
+      log.error(`\nError during watch: ${error}`, { stack: error instanceof Error ? error.stack : undefined });
+      await this.notifyRunFailure(String(error));
+      result.error = String(error);
+    }
+
+    result.elapsedSeconds = Math.floor((Date.now() - startTime) / 1000);
+    return result;
+  }
+
+  /**
+   * Book the target classes among the slots where a place was freed or that were added,
+   * going through the usual filters (booking window, reservations, policy)
+   * @returns the booking of each slot booked, by slot key
+   */
+  private async bookChanges(
+    page: Page,
+    slotBooker: ResamaniaSlotBooker,
+    allSlots: SlotInfo[],
+    changes: SlotChange[]
+  ): Promise<Map<string, SlotBookingDetail>> {
+    const keys = new Set(changes
+      .filter(change => (change.kind === 'place_freed' || change.kind === 'class_added') && change.slot.is_available)
+      .map(change => slotKey(change.slot)));
+    if (keys.size === 0) return new Map();
+
+    const selected = slotBooker.filterMatchingSlots({ allSlots }).filter(slot => keys.has(slotKey(slot)));
+    if (selected.length === 0) return new Map();
+
+    try {
+      const booking = await slotBooker.bookSlots(page, selected);
+      return new Map(booking.slots.map(detail => [detail.key, detail]));
+    } catch (error) {
+      if (!slotBooker.hasApi()) throw error;
+      log.warn(`⚠ API booking failed (${error}) - falling back to planning page`);
+      slotBooker.disableApi();
+      return new Map();
+    }
+  }
+
+  /**
+   * Log in again after the site ended the session, on the page it redirected to
+   * @returns true if login succeeded
+   */
+  private async restoreSession(page: Page): Promise<boolean> {
+    log.info('⚠ Session expired - logging in again...');
+    this.auth.invalidateSession();
+    if (!await this.auth.loginBrowser(page, page.context())) {
+      log.error('Login failed');
+      return false;
+    }
+    log.info('✓ Login successful');
+    await this.auth.saveSession(page.context());
+    return true;
+  }
+
+  /**
+   * Force a fresh login and save the new session
+   * @returns true if login succeeded
+   */
+  async login(): Promise<boolean> {
+    this.auth.invalidateSession();
+    const result = await this.withSession(async () => true);
+    return result ?? false;
+  }
+
+  /**
+   * List every slot of the planning (or API) without booking
+   */
+  async list(): Promise<SlotInfo[]> {
+    const slots = await this.withSession(async ({ listSlots, allClubs }) => {
+      const allSlots: SlotInfo[] = [];
+      for (const club of allClubs) {
+        allSlots.push(...await listSlots(club));
+      }
+      this.history.recordSeen(allSlots);
+      return allSlots;
+    });
+    return slots ?? [];
+  }
+
+  /**
+   * Current reservations, reconciled with the target classes over the booking window
+   */
+  async status(): Promise<{ reservations: Reservation[]; report: ReconciliationReport } | null> {
+    return this.withSession(async ({ reservations }) => {
+      const from = now();
+      const maxDays = this.config.booking_settings?.max_days_from_now ?? 4;
+      const to = new Date(from.getTime() + maxDays * 24 * 60 * 60 * 1000);
+      const report = reconcileReservations(reservations, this.config.target_classes || [], from, to);
+      return { reservations, report };
+    });
+  }
+
+  /**
+   * Single booking pass, either for the configured target classes or for a one-off class
+   * @returns the slots selected for booking and, unless dry-run, the booking result
+   */
+  async book(options: BookOptions = {}): Promise<{ selected: SlotInfo[]; result: BookingResult | null } | null> {
+    const outcome = await this.withSession(async ({ page, slotBooker, listSlots, clubs, allClubs }) => {
+      const selected: SlotInfo[] = [];
+      const result: BookingResult = { bookedCount: 0, failedCount: 0, waitlistedCount: 0, totalMatching: 0, slots: [] };
+
+      // Book club by club: planning card handles are only valid while the club's page is loaded
+      for (const club of options.activity ? allClubs : clubs) {
+        const allSlots = await listSlots(club, {
+          activities: options.activity ? [options.activity] : targetActivities(this.config.target_classes || []),
+        });
+        this.history.recordSeen(allSlots);
+
+        const clubSelected = options.activity
+          ? selectOneOffSlots(allSlots, options.activity, options.date, options.time)
+          : slotBooker.filterMatchingSlots({ allSlots });
+        selected.push(...clubSelected);
+
+        if (options.dryRun || clubSelected.length === 0) continue;
+
+        const clubResult = await slotBooker.bookSlots(page, clubSelected);
+        result.bookedCount += clubResult.bookedCount;
+        result.failedCount += clubResult.failedCount;
+        result.waitlistedCount += clubResult.waitlistedCount;
+        result.totalMatching += clubResult.totalMatching;
+        result.slots.push(...clubResult.slots);
+      }
+
+      return { selected, result: options.dryRun || selected.length === 0 ? null : result };
+    });
+
+    if (outcome?.result) {
+      this.exportCalendar();
+    }
+    return outcome;
+  }
+
+  /**
+   * Cancel the booking of a class
+   * @param activity - Activity name (substring match, case-insensitive)
+   * @param date - Optional date filter ("Monday 2 December" or "2 December")
+   * @param time - Optional time filter ("12:30")
+   * @returns true if a booking was cancelled
+   */
+  async cancel(activity: string, date?: string, time?: string): Promise<boolean> {
+    log.info(`Cancelling booking: ${activity}${date ? ` on ${date}` : ''}${time ? ` at ${time}` : ''}`);
+
+    const cancelled = await this.withSession(async ({ page, slotBooker, listSlots, allClubs }) => {
+      const isMatch = (slot: SlotInfo) =>
+        slot.status === 'Signed up' &&
+        slot.activity_name.toLowerCase().includes(activity.toLowerCase()) &&
+        (!date || slot.date.toLowerCase().includes(date.toLowerCase())) &&
+        (!time || slot.time === time);
+
+      const bookedSlots: SlotInfo[] = [];
+      for (const club of allClubs) {
+        bookedSlots.push(...(await listSlots(club)).filter(isMatch));
+      }
+
+      if (bookedSlots.length === 0) {
+        log.info('✗ No matching booking found');
+        return false;
+      }
+      if (bookedSlots.length > 1) {
+        log.info('✗ Several bookings match, add a date and/or time:');
+        for (const slot of bookedSlots) {
+          log.info(`  - ${slot.activity_name} ${slot.date} ${slot.time}`);
+        }
+        return false;
+      }
+
+      // Reload the booking's club so its planning card is on the page
+      const [booking] = bookedSlots;
+      const club = allClubs.find(candidate => candidate.name === booking.club) ?? allClubs[0];
+      const slot = (await listSlots(club)).find(candidate =>
+        isMatch(candidate) && candidate.at.getTime() === booking.at.getTime());
+      if (!slot) {
+        log.info('✗ Booking disappeared from the planning');
+        return false;
+      }
+
+      return slotBooker.cancelSlot(page, slot, 'Cancelled manually');
+    });
+
+    if (cancelled) {
+      this.exportCalendar();
+    }
+    return cancelled ?? false;
+  }
+
+  /**
+   * Confirm attendance of a booked class so auto-cancel leaves it alone
+   * @returns true if a matching booking was confirmed
+   */
+  confirm(activity: string, date: string, time?: string): boolean {
+    const booking = this.history.findBooking(activity, date, time);
+    if (!booking) {
+      log.info('✗ No matching booking in history');
+      return false;
+    }
+    this.history.recordDecision(booking, 'confirmed');
+    log.info(`✓ Attendance confirmed: ${booking.activity} ${booking.date} ${booking.time}`);
+    return true;
+  }
+
+  /**
+   * Cancel bookings still unconfirmed within their target's auto-cancel window
+   * @returns number of cancelled bookings
+   */
+  async autoCancel(): Promise<number> {
+    if (!(this.config.target_classes || []).some(target => target.enabled && target.auto_cancel_hours_before !== undefined)) {
+      return 0;
+    }
+
+    log.info('Checking bookings for auto-cancel...');
+    const cancelled = await this.withSession(async ({ page, slotBooker, listSlots, clubs }) => {
+      let cancelledCount = 0;
+      for (const club of clubs) {
+        cancelledCount += await slotBooker.autoCancel(page, await listSlots(club));
+      }
+      return cancelledCount;
+    });
+
+    if (cancelled) {
+      this.exportCalendar();
+    }
+    return cancelled ?? 0;
+  }
+
+  /**
+   * iCalendar feed of the classes booked with this profile
+   * @returns the .ics text and its number of events
+   */
+  calendar(): { text: string; events: number } {
+    return renderBookingCalendar(this.history, this.profile.name, this.config.target_classes || [], this.config.calendar);
+  }
+
+  /**
+   * Write the booking calendar
+   * @param path - Output file (default: the profile's calendar file, relative to the project root)
+   * @returns the path written and its number of events
+   */
+  writeCalendar(path?: string): { path: string; events: number } {
+    const output = path ?? relativePath(this.profile.calendarFile ?? this.config.calendar?.file ?? DEFAULT_CALENDAR_FILE);
+    const { text, events } = this.calendar();
+    writeCalendarFile(output, text);
+    return { path: output, events };
+  }
+
+  /**
+   * Refresh the calendar file after bookings changed; failures only warn
+   */
+  private exportCalendar(): void {
+    try {
+      const { path, events } = this.writeCalendar();
+      log.info(`Calendar: ${events} event(s) in ${path}`);
+    } catch (error) {
+      log.warn(`⚠ Could not write booking calendar: ${error}`);
+    }
+  }
+}
+
+export interface RunAllOptions {
+  parallel?: boolean;      // Run profiles concurrently (default: config's parallel_profiles)
+  configPath?: string;
+  snipe?: boolean;         // Use sniper mode for profiles that enable it
+  schedule?: RunSchedule;  // Kind of run, selecting the configured number of attempts
+  profiles?: string[];     // Only run these profiles
+  targets?: string[];      // Only book target classes of these activities
+  browser?: Browser;       // Run in this browser, left open, instead of launching one
+}
+
+export interface BookOptions {
+  dryRun?: boolean;
+  activity?: string;  // One-off booking of this class instead of the target classes
+  date?: string;
+  time?: string;
+}
+
+export interface WatchOptions {
+  maxPolls?: number;                      // Stop after this many polls (default: booking_settings.watcher.max_polls)
+  signal?: AbortSignal;                   // Stop watching, ending the session cleanly
+  onEvent?: (event: WatchEvent) => void;  // Called for each change, after any booking it triggered
+  exclusive?: <T>(task: () => Promise<T>) => Promise<T>;  // Runs each poll, e.g. in turn with the jobs sharing its browser
+}
+
+/**
+ * Select the slots of a one-off booking request
+ */
+function selectOneOffSlots(allSlots: SlotInfo[], activity: string, date?: string, time?: string): SlotInfo[] {
+  return allSlots.filter(slot =>
+    slot.activity_name.toLowerCase().includes(activity.toLowerCase()) &&
+    (!date || slot.date.toLowerCase().includes(date.toLowerCase())) &&
+    (!time || slot.time === time)
+  );
+}
+
+/**
+ * Run the booking loop for every profile, each in its own context of one shared browser
+ * @param maxRetries - Attempts per profile (default: each profile's booking_settings.run_loop)
+ * @returns one result per profile
+ */
+export async function runAllProfiles(
+  maxRetries?: number,
+  options: RunAllOptions = {}
+): Promise<RunResult[]> {
+  const configPath = options.configPath ?? DEFAULT_CONFIG_PATH;
+  const config = loadConfig(configPath);
+  const names = profileNames(config).filter(name => !options.profiles || options.profiles.includes(name));
+  const parallel = options.parallel ?? config.parallel_profiles ?? false;
+
+  log.info(`Profiles: ${names.join(', ')}${names.length > 1 ? ` (${parallel ? 'parallel' : 'sequential'})` : ''}`);
+
+  const browser = options.browser ?? await launchBrowser(config.booking_settings);
+
+  const runProfile = async (name: string): Promise<RunResult> => {
+    try {
+      const booker = new ResamaniaBooker(configPath, name);
+      booker.useBrowser(browser);
+      if (options.targets) {
+        booker.restrictTargets(options.targets);
+      }
+
+      // Sniper mode, or the retry loop when no booking window opens soon
+      if (options.snipe && booker.isSniperEnabled()) {
+        const result = await booker.snipe();
+        if (result.snipes!.length > 0) {
+          return result;
+        }
+      }
+      return await booker.run(maxRetries, options.schedule);
+    } catch (error) {
+      log.error(`Profile "${name}" failed: ${error}`);
+      return { profile: name, success: false, attempts: 0, bookedCount: 0, waitlistedCount: 0, elapsedSeconds: 0, error: String(error) };
+    }
+  };
+
+  const results: RunResult[] = [];
+  try {
+    if (parallel) {
+      results.push(...await Promise.all(names.map(runProfile)));
+    } else {
+      for (const name of names) {
+        results.push(await runProfile(name));
+      }
+    }
+  } finally {
+    if (!options.browser) {
       await browser.close();
-      process.exit(1);
     }
   }
+
+  if (names.length > 1) {
+    log.banner('PROFILE SUMMARY');
+    for (const result of results) {
+      const status = result.success ? '✓' : '✗';
+      log.info(`  ${status} ${result.profile}: ${result.bookedCount} booked, ${result.waitlistedCount} waitlisted in ${result.attempts} attempts${result.error ? ` - ${result.error}` : ''}`);
+    }
+    log.rule();
+  }
+
+  return results;
+}
+
+interface ListSlotsOptions {
+  fresh?: boolean;        // Reload the planning even if it is shown
+  activities?: string[];  // Activities looked for, to filter the planning page (see ListOptions)
+}
+
+interface BookingSession {
+  page: Page;
+  slotBooker: ResamaniaSlotBooker;
+  listSlots: (club: Club, options?: ListSlotsOptions) => Promise<SlotInfo[]>;
+  reservations: Reservation[];
+  clubs: Club[];     // Clubs referenced by the target classes
+  allClubs: Club[];  // Every configured club, default first
 }
 
 // CLI entry point
 if (import.meta.url === `file://${process.argv[1]}`) {
-  const booker = new ResamaniaBooker();
-  booker.run().catch(error => {
-    console.error(`Fatal error: ${error}`);
-    process.exit(1);
-  });
+  import('./cli.js')
+    .then(({ runCli }) => runCli(process.argv.slice(2)))
+    .then(exitCode => process.exit(exitCode))
+    .catch(error => {
+      log.error(`Fatal error: ${error}`);
+      process.exit(1);
+    });
 }
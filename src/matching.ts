@@ -0,0 +1,198 @@
+/**
+ * Matching - Decides which planning slots the target classes ask for
+ * A target matches on day, time (or time window), activity name (substring, exact or regex) and
+ * optionally coach; its alternatives are fallbacks for the same day, and priority settles overlaps
+ */
+
+import type { SlotInfo, TargetClass } from './booker.js';
+import { DEFAULT_DURATION_MINUTES } from './reservations.js';
+import { overlaps } from './utils.js';
+
+export type ActivityMatch = 'contains' | 'exact' | 'regex';
+
+export interface TimeWindow {
+  from: string;  // "HH:MM", inclusive
+  to: string;    // "HH:MM", inclusive
+}
+
+export interface ClassCriteria {
+  activity: string;
+  activity_match?: ActivityMatch;  // Default "contains" (case-insensitive substring)
+  time?: string;                   // Exact start time, ignored when time_window is set
+  time_window?: TimeWindow;        // Accept any start time within the window
+  coach?: string;                  // Case-insensitive substring of the coach name
+}
+
+/**
+ * Fallback class for the day of a target; time and time window default to the target's
+ */
+export interface AlternativeClass extends ClassCriteria {
+  duration_minutes?: number;  // Default: the target's
+}
+
+export interface TargetMatch {
+  target: TargetClass;
+  rank: number;              // 0 for the target itself, n for its n-th alternative
+  duration_minutes: number;
+}
+
+export type SelectionReason = 'not preferred' | 'lower priority';
+
+export interface SlotSelection {
+  selected: SlotInfo[];
+  skipped: { slot: SlotInfo; reason: SelectionReason; detail: string }[];
+}
+
+type MatchableSlot = Pick<SlotInfo, 'day_of_week' | 'time' | 'activity_name' | 'club' | 'coach'>;
+
+// Statuses meaning the member already holds a place (or a waiting list spot) in the class
+const HELD_STATUSES = ['Signed up', 'On waiting list'];
+
+/**
+ * Whether an activity name matches the activity of a target or alternative
+ */
+export function activityMatches(name: string, criteria: Pick<ClassCriteria, 'activity' | 'activity_match'>): boolean {
+  switch (criteria.activity_match ?? 'contains') {
+    case 'exact':
+      return name.trim().toLowerCase() === criteria.activity.trim().toLowerCase();
+    case 'regex':
+      return new RegExp(criteria.activity, 'i').test(name);
+    case 'contains':
+      return name.toLowerCase().includes(criteria.activity.toLowerCase());
+  }
+}
+
+/**
+ * Activity names looked for by the enabled targets and their alternatives, to narrow the planning;
+ * empty when a regex leaves the names open
+ */
+export function targetActivities(targets: TargetClass[]): string[] {
+  const criteria: ClassCriteria[] = targets
+    .filter(target => target.enabled)
+    .flatMap(target => [target, ...(target.alternatives ?? [])]);
+  if (criteria.some(criterion => criterion.activity_match === 'regex')) return [];
+  return [...new Set(criteria.map(criterion => criterion.activity))];
+}
+
+function timeMatches(time: string, criteria: Pick<ClassCriteria, 'time' | 'time_window'>): boolean {
+  if (criteria.time_window) {
+    return time >= criteria.time_window.from && time <= criteria.time_window.to;
+  }
+  return time === criteria.time;
+}
+
+/**
+ * Slots with an unknown coach (e.g. a planning card without a coach line) are not filtered out
+ */
+function coachMatches(coach: string | undefined, criteria: Pick<ClassCriteria, 'coach'>): boolean {
+  return !criteria.coach || !coach || coach.toLowerCase().includes(criteria.coach.toLowerCase());
+}
+
+/**
+ * How a slot (or reservation) matches a target class
+ * @returns 0 for the target itself, n for its n-th alternative, or null when it does not match
+ */
+export function targetMatchRank(slot: MatchableSlot, target: TargetClass): number | null {
+  if ((slot.club && target.club && slot.club !== target.club) || slot.day_of_week !== target.day) {
+    return null;
+  }
+
+  const candidates: ClassCriteria[] = [target, ...(target.alternatives ?? []).map(alternative => ({
+    ...alternative,
+    time: alternative.time ?? (alternative.time_window ? undefined : target.time),
+    time_window: alternative.time_window ?? (alternative.time ? undefined : target.time_window),
+  }))];
+
+  const rank = candidates.findIndex(criteria =>
+    timeMatches(slot.time, criteria) &&
+    activityMatches(slot.activity_name, criteria) &&
+    coachMatches(slot.coach, criteria));
+  return rank === -1 ? null : rank;
+}
+
+/**
+ * Whether a slot (or reservation) is the class a target asks for, not one of its alternatives
+ */
+export function slotMatchesTarget(slot: MatchableSlot, target: TargetClass): boolean {
+  return targetMatchRank(slot, target) === 0;
+}
+
+/**
+ * Enabled target a slot matches, preferring a target over another target's alternative
+ */
+export function findTargetMatch(slot: MatchableSlot, targets: TargetClass[]): TargetMatch | null {
+  let best: TargetMatch | null = null;
+
+  for (const target of targets) {
+    if (!target.enabled) continue;
+
+    const rank = targetMatchRank(slot, target);
+    if (rank !== null && (best === null || rank < best.rank)) {
+      const alternative = rank > 0 ? target.alternatives![rank - 1] : null;
+      best = { target, rank, duration_minutes: alternative?.duration_minutes ?? target.duration_minutes ?? DEFAULT_DURATION_MINUTES };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Keep one slot per target and day: one already held, else the best-ranked bookable one not
+ * overlapping a slot kept for a higher-priority target, else the best-ranked one
+ * @param slots - Slots matching the targets, in planning order
+ */
+export function selectSlots(slots: SlotInfo[], targets: TargetClass[]): SlotSelection {
+  const skipped: SlotSelection['skipped'] = [];
+
+  const groups = new Map<string, { slot: SlotInfo; match: TargetMatch }[]>();
+  for (const slot of slots) {
+    const match = findTargetMatch(slot, targets);
+    if (!match) continue;
+    const key = `${targets.indexOf(match.target)}|${slot.at.toDateString()}`;
+    groups.set(key, [...groups.get(key) ?? [], { slot, match }]);
+  }
+
+  // Higher priority first, then target order
+  const ordered = [...groups.values()].sort((a, b) =>
+    (b[0].match.target.priority ?? 0) - (a[0].match.target.priority ?? 0) ||
+    targets.indexOf(a[0].match.target) - targets.indexOf(b[0].match.target));
+
+  // Slots that will be booked (or are held) block overlapping slots of lower-priority targets
+  const blocking: { slot: SlotInfo; match: TargetMatch }[] = [];
+  const kept = new Set<SlotInfo>();
+  for (const group of ordered) {
+    const candidates = [...group].sort((a, b) =>
+      preference(a.slot) - preference(b.slot) || a.match.rank - b.match.rank || a.slot.at.getTime() - b.slot.at.getTime());
+
+    let chosen: SlotInfo | null = null;
+    for (const candidate of candidates) {
+      if (chosen) {
+        skipped.push({ slot: candidate.slot, reason: 'not preferred', detail: `${chosen.activity_name} at ${chosen.time} chosen` });
+        continue;
+      }
+
+      const conflict = blocking.find(other =>
+        overlaps(candidate.slot.at, candidate.match.duration_minutes, other.slot.at, other.match.duration_minutes));
+      if (conflict) {
+        skipped.push({ slot: candidate.slot, reason: 'lower priority', detail: `overlaps ${conflict.slot.activity_name} at ${conflict.slot.time}` });
+        continue;
+      }
+
+      chosen = candidate.slot;
+      kept.add(candidate.slot);
+      if (preference(candidate.slot) < 2 || (candidate.slot.status === 'Full' && candidate.match.target.join_waitlist)) {
+        blocking.push(candidate);
+      }
+    }
+  }
+
+  return { selected: slots.filter(slot => kept.has(slot)), skipped };
+}
+
+/**
+ * 0 for a held class, 1 for a bookable one, 2 otherwise
+ */
+function preference(slot: SlotInfo): number {
+  if (HELD_STATUSES.includes(slot.status)) return 0;
+  return slot.is_available && slot.status !== 'Full' ? 1 : 2;
+}
@@ -0,0 +1,268 @@
+/**
+ * Notification Dispatcher - Sends booking events to webhook, Telegram and email channels
+ * Honors the notify_on_* flags of notification_settings in config.json
+ */
+
+import nodemailer from 'nodemailer';
+import type { SlotInfo } from './booker.js';
+import { log } from './logger.js';
+import { now } from './clock.js';
+
+export type NotificationEvent =
+  | 'success'
+  | 'failure'
+  | 'slot_found'
+  | 'waitlisted'
+  | 'promoted'
+  | 'cancelled'
+  // Planning changes reported by watch mode
+  | 'place_freed'
+  | 'class_added'
+  | 'class_cancelled'
+  | 'places_low';
+
+export interface Notification {
+  event: NotificationEvent;
+  activity: string;
+  date: string;
+  time: string;
+  status: string;
+  reason?: string;
+}
+
+export interface NotificationSettings {
+  notify_on_success?: boolean;
+  notify_on_failure?: boolean;
+  notify_on_slot_found?: boolean;
+  notify_on_waitlist?: boolean;
+  notify_on_watch?: boolean;  // Planning changes detected by watch mode
+}
+
+export interface NotificationChannel {
+  readonly name: string;
+  send(notification: Notification, text: string): Promise<void>;
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+// How long an identical notification is held back: covers the retries of a run,
+// not a change seen again by a watch hours later
+const DEDUPE_TTL_MS = 15 * 60 * 1000;
+
+const EVENT_LABELS: Record<NotificationEvent, string> = {
+  success: '✅ Booked',
+  failure: '❌ Booking failed',
+  slot_found: '🔎 Slot found',
+  waitlisted: '⏳ Joined waiting list',
+  promoted: '🎉 Promoted from waiting list',
+  cancelled: '🗑 Booking cancelled',
+  place_freed: '🔓 Place freed',
+  class_added: '🆕 Class added',
+  class_cancelled: '🚫 Class cancelled by the club',
+  places_low: '📉 Few places left',
+};
+
+/**
+ * Render a notification as a short human-readable message
+ */
+export function formatNotification(notification: Notification): string {
+  const lines = [
+    `${EVENT_LABELS[notification.event]}: ${notification.activity}`,
+    `${notification.date} at ${notification.time}`,
+    `Status: ${notification.status}`,
+  ];
+  if (notification.reason) {
+    lines.push(`Reason: ${notification.reason}`);
+  }
+  return lines.join('\n');
+}
+
+async function postJson(url: string, body: unknown): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`POST ${url} returned ${response.status}`);
+  }
+}
+
+/**
+ * Generic webhook: POSTs the notification as JSON along with the rendered text
+ */
+export class WebhookChannel implements NotificationChannel {
+  readonly name = 'webhook';
+
+  constructor(private url: string) {}
+
+  async send(notification: Notification, text: string): Promise<void> {
+    await postJson(this.url, { ...notification, text });
+  }
+}
+
+export class TelegramChannel implements NotificationChannel {
+  readonly name = 'telegram';
+
+  constructor(
+    private botToken: string,
+    private chatId: string,
+    private apiUrl: string = 'https://api.telegram.org'
+  ) {}
+
+  async send(_notification: Notification, text: string): Promise<void> {
+    await postJson(`${this.apiUrl}/bot${this.botToken}/sendMessage`, {
+      chat_id: this.chatId,
+      text,
+    });
+  }
+}
+
+export interface EmailSettings {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+  to: string;
+}
+
+export class EmailChannel implements NotificationChannel {
+  readonly name = 'email';
+  private transporter: nodemailer.Transporter;
+
+  constructor(private settings: EmailSettings) {
+    this.transporter = nodemailer.createTransport({
+      host: settings.host,
+      port: settings.port,
+      secure: settings.secure,
+      auth: settings.user ? { user: settings.user, pass: settings.password } : undefined,
+      connectionTimeout: REQUEST_TIMEOUT_MS,
+    });
+  }
+
+  async send(notification: Notification, text: string): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.settings.from,
+      to: this.settings.to,
+      subject: `[Resamania] ${EVENT_LABELS[notification.event]}: ${notification.activity} ${notification.date} ${notification.time}`,
+      text,
+    });
+  }
+}
+
+export class NotificationDispatcher {
+  private settings: NotificationSettings;
+  private channels: NotificationChannel[];
+  private sent = new Map<string, number>();  // Dedupe key -> time sent
+
+  constructor(settings: NotificationSettings = {}, channels: NotificationChannel[] = [], private dedupeTtlMs: number = DEDUPE_TTL_MS) {
+    this.settings = settings;
+    this.channels = channels;
+  }
+
+  /**
+   * Build a dispatcher with every channel configured in the environment
+   */
+  static fromEnvironment(settings: NotificationSettings = {}): NotificationDispatcher {
+    const channels: NotificationChannel[] = [];
+
+    if (process.env.NOTIFY_WEBHOOK_URL) {
+      channels.push(new WebhookChannel(process.env.NOTIFY_WEBHOOK_URL));
+    }
+
+    if (process.env.NOTIFY_TELEGRAM_BOT_TOKEN && process.env.NOTIFY_TELEGRAM_CHAT_ID) {
+      channels.push(new TelegramChannel(
+        process.env.NOTIFY_TELEGRAM_BOT_TOKEN,
+        process.env.NOTIFY_TELEGRAM_CHAT_ID,
+        process.env.NOTIFY_TELEGRAM_API_URL
+      ));
+    }
+
+    if (process.env.NOTIFY_SMTP_HOST && process.env.NOTIFY_EMAIL_TO) {
+      const port = Number(process.env.NOTIFY_SMTP_PORT || 587);
+      channels.push(new EmailChannel({
+        host: process.env.NOTIFY_SMTP_HOST,
+        port,
+        secure: port === 465,
+        user: process.env.NOTIFY_SMTP_USER,
+        password: process.env.NOTIFY_SMTP_PASSWORD,
+        from: process.env.NOTIFY_EMAIL_FROM || process.env.NOTIFY_SMTP_USER || 'resamania@localhost',
+        to: process.env.NOTIFY_EMAIL_TO,
+      }));
+    }
+
+    return new NotificationDispatcher(settings, channels);
+  }
+
+  hasChannels(): boolean {
+    return this.channels.length > 0;
+  }
+
+  private isEnabled(event: NotificationEvent): boolean {
+    switch (event) {
+      case 'success':
+      case 'cancelled':
+        return this.settings.notify_on_success ?? true;
+      case 'failure':
+        return this.settings.notify_on_failure ?? true;
+      case 'slot_found':
+        return this.settings.notify_on_slot_found ?? false;
+      case 'waitlisted':
+      case 'promoted':
+        return this.settings.notify_on_waitlist ?? true;
+      case 'place_freed':
+      case 'class_added':
+      case 'class_cancelled':
+      case 'places_low':
+        return this.settings.notify_on_watch ?? true;
+    }
+  }
+
+  /**
+   * Send a notification to every channel.
+   * Identical notifications are only sent once within the dedupe TTL, so retry loops don't spam.
+   * Channel errors are logged, never thrown.
+   */
+  async notify(notification: Notification): Promise<void> {
+    if (!this.isEnabled(notification.event) || this.channels.length === 0) {
+      return;
+    }
+
+    const sentAt = now().getTime();
+    for (const [key, at] of this.sent) {
+      if (sentAt - at >= this.dedupeTtlMs) this.sent.delete(key);
+    }
+
+    const dedupeKey = JSON.stringify(notification);
+    if (this.sent.has(dedupeKey)) {
+      return;
+    }
+    this.sent.set(dedupeKey, sentAt);
+
+    const text = formatNotification(notification);
+    await Promise.all(this.channels.map(async channel => {
+      try {
+        await channel.send(notification, text);
+      } catch (error) {
+        log.warn(`⚠ Could not send ${channel.name} notification: ${error}`);
+      }
+    }));
+  }
+
+  /**
+   * Notify about a slot-related event
+   */
+  async notifySlot(event: NotificationEvent, slot: SlotInfo, reason?: string): Promise<void> {
+    await this.notify({
+      event,
+      activity: slot.activity_name,
+      date: slot.date,
+      time: slot.time,
+      status: slot.status,
+      reason,
+    });
+  }
+}
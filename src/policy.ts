@@ -0,0 +1,170 @@
+/**
+ * Booking Policy - Rules a booking must pass: weekly and daily quotas, rest time between classes,
+ * no overlapping classes, and blackout periods (config dates or an iCalendar file / URL)
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { isAbsolute } from 'path';
+import type { SlotInfo } from './booker.js';
+import { DEFAULT_DURATION_MINUTES, type Reservation } from './reservations.js';
+import { parseIcalEvents } from './ical.js';
+import { log } from './logger.js';
+import { overlaps, relativePath } from './utils.js';
+
+export interface BlackoutPeriod {
+  from: string;     // "YYYY-MM-DD"
+  to?: string;      // "YYYY-MM-DD", inclusive (default: same day)
+  reason?: string;
+}
+
+export interface BookingPolicyConfig {
+  max_per_week?: number;       // Bookings per calendar week (Monday to Sunday)
+  max_per_day?: number;
+  min_rest_hours?: number;     // Between the end of a class and the start of the next one
+  allow_overlap?: boolean;     // Default false
+  blackouts?: BlackoutPeriod[];
+  blackout_calendar?: string;  // .ics file (relative to the project root) or URL; every event is a blackout
+}
+
+export type PolicyRule = 'blackout' | 'overlap' | 'rest time' | 'daily quota' | 'weekly quota';
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  message: string;
+}
+
+interface Blackout {
+  start: Date;
+  end: Date;  // Exclusive
+  reason: string;
+}
+
+type PolicySlot = Pick<SlotInfo, 'activity_name' | 'time' | 'at'>;
+
+const HOUR_MS = 60 * 60 * 1000;
+const CALENDAR_TIMEOUT_MS = 10000;
+
+export class BookingPolicy {
+  constructor(private config: BookingPolicyConfig = {}, private blackouts: Blackout[] = []) {}
+
+  /**
+   * Build the policy of booking_settings.policy, reading its blackout calendar
+   * An unreadable calendar is reported and its blackouts are skipped
+   */
+  static async load(config: BookingPolicyConfig = {}): Promise<BookingPolicy> {
+    const blackouts = (config.blackouts ?? []).map(blackoutOf);
+
+    if (config.blackout_calendar) {
+      try {
+        const text = await readCalendar(config.blackout_calendar);
+        const events = parseIcalEvents(text);
+        blackouts.push(...events.map(event => ({ start: event.start, end: event.end, reason: event.summary ?? 'calendar event' })));
+        log.info(`Blackout calendar: ${events.length} event(s)`);
+      } catch (error) {
+        log.warn(`⚠ Could not read blackout calendar ${config.blackout_calendar}: ${error}`);
+      }
+    }
+
+    return new BookingPolicy(config, blackouts);
+  }
+
+  /**
+   * Check whether a class may be booked on top of the classes already held
+   * @param durationMinutes - Length of the class
+   * @param held - Booked and waitlisted classes (the class itself is ignored)
+   * @returns the first rule broken, or null
+   */
+  check(slot: PolicySlot, durationMinutes: number, held: Reservation[]): PolicyViolation | null {
+    const start = slot.at.getTime();
+    const end = start + durationMinutes * 60 * 1000;
+
+    const blackout = this.blackouts.find(period => start < period.end.getTime() && period.start.getTime() < end);
+    if (blackout) {
+      return { rule: 'blackout', message: blackout.reason };
+    }
+
+    const others = held.filter(reservation =>
+      !(reservation.at.getTime() === start && reservation.activity_name.toLowerCase() === slot.activity_name.toLowerCase()));
+    const durationOf = (reservation: Reservation) => reservation.duration_minutes ?? DEFAULT_DURATION_MINUTES;
+
+    if (!this.config.allow_overlap) {
+      const overlapping = others.find(reservation => overlaps(slot.at, durationMinutes, reservation.at, durationOf(reservation)));
+      if (overlapping) {
+        return { rule: 'overlap', message: `already booked ${overlapping.activity_name} at ${overlapping.time}` };
+      }
+    }
+
+    const minRestHours = this.config.min_rest_hours;
+    if (minRestHours) {
+      for (const reservation of others) {
+        const otherStart = reservation.at.getTime();
+        const otherEnd = otherStart + durationOf(reservation) * 60 * 1000;
+        const gap = otherStart >= start ? otherStart - end : start - otherEnd;
+        if (gap < minRestHours * HOUR_MS) {
+          return {
+            rule: 'rest time',
+            message: `${Math.max(0, gap / HOUR_MS).toFixed(1)}h from ${reservation.activity_name} at ${reservation.time} (min ${minRestHours}h)`,
+          };
+        }
+      }
+    }
+
+    const maxPerDay = this.config.max_per_day;
+    if (maxPerDay !== undefined) {
+      const sameDay = others.filter(reservation => reservation.at.toDateString() === slot.at.toDateString()).length;
+      if (sameDay >= maxPerDay) {
+        return { rule: 'daily quota', message: `${sameDay} booking(s) that day (max ${maxPerDay})` };
+      }
+    }
+
+    const maxPerWeek = this.config.max_per_week;
+    if (maxPerWeek !== undefined) {
+      const week = weekStart(slot.at).getTime();
+      const sameWeek = others.filter(reservation => weekStart(reservation.at).getTime() === week).length;
+      if (sameWeek >= maxPerWeek) {
+        return { rule: 'weekly quota', message: `${sameWeek} booking(s) that week (max ${maxPerWeek})` };
+      }
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Local midnight of the Monday starting the week of a date
+ */
+function weekStart(date: Date): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - (start.getDay() + 6) % 7);
+  return start;
+}
+
+/**
+ * Local midnight of a "YYYY-MM-DD" date
+ */
+export function parseDay(day: string): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date);
+}
+
+function blackoutOf(period: BlackoutPeriod): Blackout {
+  const end = parseDay(period.to ?? period.from);
+  end.setDate(end.getDate() + 1);
+  return { start: parseDay(period.from), end, reason: period.reason ?? `blackout ${period.from}${period.to ? ` to ${period.to}` : ''}` };
+}
+
+async function readCalendar(location: string): Promise<string> {
+  if (/^https?:\/\//i.test(location)) {
+    const response = await fetch(location, { signal: AbortSignal.timeout(CALENDAR_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return response.text();
+  }
+
+  const path = isAbsolute(location) ? location : relativePath(location);
+  if (!existsSync(path)) {
+    throw new Error(`file not found: ${path}`);
+  }
+  return readFileSync(path, 'utf-8');
+}
@@ -0,0 +1,99 @@
+/**
+ * Profiles - Several Resamania accounts sharing one deployment
+ * Each profile has its own credentials, session file, history, target classes and booking settings
+ */
+
+import type { Config, BookingSettingsConfig } from './config.js';
+import type { TargetClass } from './booker.js';
+
+export interface ProfileConfig {
+  name: string;
+  username_env?: string;  // Env var holding the username (default RESAMANIA_USERNAME)
+  password_env?: string;  // Env var holding the password (default RESAMANIA_PASSWORD)
+  session_file?: string;  // Relative to the project root
+  history_file?: string;  // Relative to the project root
+  calendar_file?: string; // Relative to the project root
+  target_classes?: TargetClass[];
+  booking_settings?: Partial<BookingSettingsConfig>;
+}
+
+export interface ResolvedProfile {
+  name: string;
+  usernameEnv: string;
+  passwordEnv: string;
+  sessionFile?: string;  // undefined: default session file
+  historyFile?: string;  // undefined: default history journal
+  calendarFile?: string; // undefined: calendar.file of the config
+  config: Config;        // Config with the profile's targets and settings applied
+}
+
+export const DEFAULT_PROFILE = 'default';
+
+/**
+ * Names of the profiles defined in config (a single "default" profile when none are)
+ */
+export function profileNames(config: Config): string[] {
+  if (!config.profiles || config.profiles.length === 0) {
+    return [DEFAULT_PROFILE];
+  }
+  return config.profiles.map(profile => profile.name);
+}
+
+/** Nested setting objects merged key by key rather than replaced */
+const NESTED_SETTINGS = ['run_loop', 'sniper', 'watcher', 'policy'] as const;
+
+/**
+ * Apply a profile's booking settings over the top-level ones
+ * A nested object such as run_loop only overrides the keys the profile sets
+ */
+export function mergeBookingSettings<T extends Partial<BookingSettingsConfig>>(
+  base: T,
+  overrides: Partial<BookingSettingsConfig> = {},
+): T {
+  const merged: Partial<BookingSettingsConfig> = { ...base, ...overrides };
+  for (const key of NESTED_SETTINGS) {
+    if (base[key] && overrides[key]) {
+      Object.assign(merged, { [key]: { ...base[key], ...overrides[key] } });
+    }
+  }
+  return merged as T;
+}
+
+/**
+ * Resolve a profile against the top-level config
+ * @param name - Profile name; the first profile (or the default one) when omitted
+ */
+export function resolveProfile(config: Config, name?: string): ResolvedProfile {
+  if (!config.profiles || config.profiles.length === 0) {
+    if (name && name !== DEFAULT_PROFILE) {
+      throw new Error(`Unknown profile "${name}" (no profiles defined in config)`);
+    }
+    return {
+      name: DEFAULT_PROFILE,
+      usernameEnv: 'RESAMANIA_USERNAME',
+      passwordEnv: 'RESAMANIA_PASSWORD',
+      config,
+    };
+  }
+
+  const profile = name
+    ? config.profiles.find(candidate => candidate.name === name)
+    : config.profiles[0];
+  if (!profile) {
+    throw new Error(`Unknown profile "${name}" (available: ${profileNames(config).join(', ')})`);
+  }
+
+  return {
+    name: profile.name,
+    usernameEnv: profile.username_env ?? 'RESAMANIA_USERNAME',
+    passwordEnv: profile.password_env ?? 'RESAMANIA_PASSWORD',
+    sessionFile: profile.session_file ?? `./data/${profile.name}_session.json`,
+    historyFile: profile.history_file ?? `./data/${profile.name}_booking_history.jsonl`,
+    calendarFile: profile.calendar_file ?? `./data/${profile.name}_bookings.ics`,
+    config: {
+      ...config,
+      target_classes: profile.target_classes ?? config.target_classes,
+      booking_settings: mergeBookingSettings(config.booking_settings, profile.booking_settings),
+    },
+  };
+}
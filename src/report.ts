@@ -0,0 +1,156 @@
+/**
+ * Run Report - Machine-readable account of one booking run, written as JSON when the run ends
+ * Lists every parsed slot with the filter decision taken for it, and every booking attempt
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { BookingResultKind, SlotInfo } from './booker.js';
+import { slotKey, type AttemptOutcome } from './history.js';
+import type { PolicyRule } from './policy.js';
+import { relativePath } from './utils.js';
+
+export type FilterReason =
+  | 'not matching'
+  | 'too soon'
+  | 'too far'
+  | 'not preferred'   // Another class of the same target and day was chosen
+  | 'lower priority'  // Overlaps a class of a higher-priority target
+  | 'already booked'
+  | 'cancelled'
+  | PolicyRule;       // Broke a rule of booking_settings.policy
+
+export type ReportedOutcome = AttemptOutcome | 'skipped';
+
+interface ReportedSlot {
+  key: string;
+  club?: string;
+  activity: string;
+  date: string;
+  time: string;
+  at: string;
+  day_of_week: string;
+  status: string;
+  is_available: boolean;
+}
+
+export interface SlotDecision extends ReportedSlot {
+  pass: number;  // Attempt of the retry loop that parsed the slot
+  decision: 'selected' | 'skipped';
+  reason?: FilterReason;
+  detail?: string;
+}
+
+export interface AttemptReport extends ReportedSlot {
+  pass: number;
+  outcome: ReportedOutcome;
+  result?: BookingResultKind;  // Typed booking result (full, quota_exceeded, ...)
+  message?: string;
+  recorded_at: string;
+}
+
+export interface RunReportData {
+  run_id: string;
+  profile: string;
+  schedule: string;
+  auto_book: boolean;
+  started_at: string;
+  finished_at?: string;
+  success?: boolean;
+  error?: string;
+  passes: number;
+  booked: number;
+  waitlisted: number;
+  slots: SlotDecision[];
+  attempts: AttemptReport[];
+}
+
+export class RunReport {
+  private data: RunReportData;
+
+  constructor(runId: string, profile: string, schedule: string, autoBook: boolean) {
+    this.data = {
+      run_id: runId,
+      profile,
+      schedule,
+      auto_book: autoBook,
+      started_at: new Date().toISOString(),
+      passes: 0,
+      booked: 0,
+      waitlisted: 0,
+      slots: [],
+      attempts: [],
+    };
+  }
+
+  get runId(): string {
+    return this.data.run_id;
+  }
+
+  /**
+   * Start a new attempt of the retry loop; following entries are tagged with it
+   */
+  startPass(pass: number): void {
+    this.data.passes = pass;
+  }
+
+  recordSelected(slot: SlotInfo): void {
+    this.data.slots.push({ ...reportedSlot(slot), pass: this.data.passes, decision: 'selected' });
+  }
+
+  /**
+   * @param detail - Human-readable explanation, e.g. "2.5h < 6h"
+   */
+  recordSkipped(slot: SlotInfo, reason: FilterReason, detail?: string): void {
+    this.data.slots.push({ ...reportedSlot(slot), pass: this.data.passes, decision: 'skipped', reason, detail });
+  }
+
+  recordAttempt(slot: SlotInfo, outcome: ReportedOutcome, message?: string, result?: BookingResultKind): void {
+    this.data.attempts.push({
+      ...reportedSlot(slot),
+      pass: this.data.passes,
+      outcome,
+      result,
+      message,
+      recorded_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Close the report with the run totals
+   */
+  finish(result: { success: boolean; bookedCount: number; waitlistedCount: number; error?: string }): RunReportData {
+    this.data.finished_at = new Date().toISOString();
+    this.data.success = result.success;
+    this.data.booked = result.bookedCount;
+    this.data.waitlisted = result.waitlistedCount;
+    this.data.error = result.error;
+    return this.data;
+  }
+
+  /**
+   * Write the report to REPORTS_DIR (default ./data/reports)
+   * @returns the path of the report file
+   */
+  save(dir: string = process.env.REPORTS_DIR || relativePath('./data/reports')): string {
+    mkdirSync(dir, { recursive: true });
+    const stamp = this.data.started_at.replace(/[:.]/g, '-');
+    const path = join(dir, `${stamp}_${this.data.profile}_${this.data.run_id}.json`);
+    writeFileSync(path, JSON.stringify(this.data, null, 2) + '\n');
+    return path;
+  }
+}
+
+function reportedSlot(slot: SlotInfo): ReportedSlot {
+  return {
+    key: slotKey(slot),
+    club: slot.club,
+    activity: slot.activity_name,
+    date: slot.date,
+    time: slot.time,
+    at: slot.at.toISOString(),
+    day_of_week: slot.day_of_week,
+    status: slot.status,
+    is_available: slot.is_available,
+  };
+}
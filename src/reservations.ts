@@ -0,0 +1,240 @@
+/**
+ * Reservations - Reads the member's existing bookings and reconciles them with target classes
+ */
+
+import { Page } from 'playwright'
+import { ResamaniaApiClient } from './api.js'
+import type { TargetClass } from './booker.js'
+import { findTargetMatch, targetMatchRank } from './matching.js'
+import {
+  parseSlotDateTime,
+  extractDateFromCardText,
+  extractDayOfWeekFromCardText,
+  dayOfWeek,
+  formatSlotDate,
+  overlaps,
+  normalizeTime,
+} from './utils.js'
+import { now } from './clock.js'
+import { resolvePageLocale, type LocaleSetting } from './locale.js'
+import { log } from './logger.js'
+import { queryAll, queryFirst, waitForAny } from './selectors.js'
+import type { FailureRecorder } from './diagnostics.js'
+
+export interface Reservation {
+  id?: string;  // Attendee IRI (API only)
+  activity_name: string;
+  date: string;
+  time: string;
+  at: Date;
+  day_of_week: string;
+  duration_minutes?: number;
+  status: 'booked' | 'waitlisted';
+  source: 'api' | 'page';
+}
+
+export interface MissingBooking {
+  target: TargetClass;
+  at: Date;
+  date: string;
+}
+
+export interface ReconciliationReport {
+  missing: MissingBooking[];
+  unexpected: Reservation[];
+  conflicts: [Reservation, Reservation][];
+}
+
+// Assumed class length when neither the reservation nor a target gives one
+export const DEFAULT_DURATION_MINUTES = 60;
+
+export class ReservationReader {
+  private api: ResamaniaApiClient | null;
+  private bookingsUrl: string;
+  private localeSetting: LocaleSetting;
+  private diagnostics: FailureRecorder | null;
+
+  /**
+   * @param locale - Language of the member area (default: detected from the page)
+   * @param diagnostics - Captures the page when reservation cards cannot be parsed
+   */
+  constructor(
+    bookingsUrl: string,
+    api: ResamaniaApiClient | null = null,
+    locale: LocaleSetting = 'auto',
+    diagnostics: FailureRecorder | null = null
+  ) {
+    this.bookingsUrl = bookingsUrl;
+    this.api = api;
+    this.localeSetting = locale;
+    this.diagnostics = diagnostics;
+  }
+
+  /**
+   * Read upcoming reservations, from the API when available, else from the member area
+   */
+  async read(page: Page): Promise<Reservation[]> {
+    if (this.api) {
+      try {
+        return await this.api.listReservations(now());
+      } catch (error) {
+        log.warn(`⚠ Could not read reservations from API (${error}) - using member area`);
+      }
+    }
+    return this.readFromPage(page);
+  }
+
+  /**
+   * Scrape the "My bookings" page of the member area
+   */
+  private async readFromPage(page: Page): Promise<Reservation[]> {
+    log.info(`Reading reservations from: ${this.bookingsUrl}`);
+    await page.goto(this.bookingsUrl, { waitUntil: 'networkidle' });
+
+    if (!await waitForAny(page, 'reservationCard', 10000)) {
+      log.info('No reservation cards found');
+      return [];
+    }
+
+    const locale = await resolvePageLocale(page, this.localeSetting);
+    const reservations: Reservation[] = [];
+    const parseErrors: string[] = [];
+    const cards = await queryAll(page, 'reservationCard');
+
+    for (const card of cards) {
+      try {
+        const heading = await queryFirst(card, 'activityName');
+        const timeHeading = await queryFirst(card, 'classTime');
+        if (!heading || !timeHeading) continue;
+
+        const cardText = await card.innerText();
+        const dateText = extractDateFromCardText(cardText, locale.code);
+        if (dateText === 'Unknown') continue;
+
+        const time = normalizeTime(await timeHeading.innerText());
+        reservations.push({
+          activity_name: (await heading.innerText()).trim(),
+          date: dateText,
+          time,
+          at: parseSlotDateTime(dateText, time),
+          day_of_week: extractDayOfWeekFromCardText(cardText, locale.code),
+          status: locale.statuses.waitingList.test(cardText) ? 'waitlisted' : 'booked',
+          source: 'page',
+        });
+      } catch (error) {
+        log.warn(`⚠ Error parsing reservation card: ${error}`);
+        parseErrors.push(String(error));
+      }
+    }
+
+    if (parseErrors.length > 0) {
+      await this.diagnostics?.capture(page, 'parse-reservations', parseErrors.join('\n'));
+    }
+
+    log.info(`Found ${reservations.length} reservations`);
+    return reservations;
+  }
+}
+
+/**
+ * Derive the member area bookings URL from the planning URL
+ * ("https://member.resamania.com/fitnesstraining/planning" -> ".../fitnesstraining/bookings")
+ */
+export function bookingsUrlFromPlanningUrl(planningUrl: string): string {
+  const url = new URL(planningUrl);
+  url.pathname = url.pathname.replace(/\/planning\/?$/, '/bookings');
+  url.search = '';
+  return url.toString();
+}
+
+/**
+ * Next occurrences of a target class within a time window
+ */
+export function targetOccurrences(target: TargetClass, from: Date, to: Date): Date[] {
+  const [hour, minute] = target.time.split(':').map(Number);
+  const occurrences: Date[] = [];
+
+  const day = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  while (day <= to) {
+    if (dayOfWeek(day) === target.day) {
+      const at = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute);
+      if (at >= from && at <= to) {
+        occurrences.push(at);
+      }
+    }
+    day.setDate(day.getDate() + 1);
+  }
+
+  return occurrences;
+}
+
+/**
+ * Compare reservations with target classes over a window
+ * @returns target classes with no booking, bookings not matching any target, and overlapping bookings
+ */
+export function reconcileReservations(
+  reservations: Reservation[],
+  targets: TargetClass[],
+  from: Date,
+  to: Date
+): ReconciliationReport {
+  const enabledTargets = targets.filter(target => target.enabled);
+  const inWindow = reservations.filter(reservation => reservation.at >= from && reservation.at <= to);
+
+  const missing: MissingBooking[] = [];
+  for (const target of enabledTargets) {
+    for (const at of targetOccurrences(target, from, to)) {
+      // A booking of the target within its time window, or of one of its alternatives, counts
+      const booked = inWindow.some(reservation =>
+        reservation.at.toDateString() === at.toDateString() && targetMatchRank(reservation, target) !== null);
+      if (!booked) {
+        missing.push({ target, at, date: formatSlotDate(at) });
+      }
+    }
+  }
+
+  const unexpected = inWindow.filter(reservation =>
+    !findTargetMatch(reservation, enabledTargets));
+
+  const durationOf = (reservation: Reservation): number =>
+    reservation.duration_minutes ??
+    findTargetMatch(reservation, enabledTargets)?.duration_minutes ??
+    DEFAULT_DURATION_MINUTES;
+
+  const conflicts: [Reservation, Reservation][] = [];
+  for (let i = 0; i < inWindow.length; i++) {
+    for (let j = i + 1; j < inWindow.length; j++) {
+      const a = inWindow[i];
+      const b = inWindow[j];
+      if (overlaps(a.at, durationOf(a), b.at, durationOf(b))) {
+        conflicts.push([a, b]);
+      }
+    }
+  }
+
+  return { missing, unexpected, conflicts };
+}
+
+/**
+ * Render a reconciliation report for the console
+ */
+export function formatReconciliationReport(report: ReconciliationReport): string {
+  const lines: string[] = [];
+
+  lines.push(`Target classes without booking: ${report.missing.length}`);
+  for (const { target, date } of report.missing) {
+    lines.push(`  - ${target.activity} ${date} ${target.time}`);
+  }
+
+  lines.push(`Bookings not in target_classes: ${report.unexpected.length}`);
+  for (const reservation of report.unexpected) {
+    lines.push(`  - ${reservation.activity_name} ${reservation.date} ${reservation.time}`);
+  }
+
+  lines.push(`Conflicting bookings: ${report.conflicts.length}`);
+  for (const [a, b] of report.conflicts) {
+    lines.push(`  - ${a.activity_name} ${a.date} ${a.time} overlaps ${b.activity_name} ${b.date} ${b.time}`);
+  }
+
+  return lines.join('\n');
+}
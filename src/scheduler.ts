@@ -1,94 +1,179 @@
 /**
- * Scheduler - Runs booking on two schedules:
- * - Daily at 11:59 AM Paris time with 15 retries
- * - Every hour at :30 with 1 retry
+ * Scheduler - Runs booking on the cron schedules of config.json (scheduler.schedules)
+ * Defaults to a daily 11:59 AM Paris burst (sniper mode when enabled) and an hourly :30
+ * run followed by the auto-cancel check. Runs never overlap, and a lock file keeps a
+ * second scheduler instance from starting.
  */
 
 import cron from 'node-cron';
 import * as dotenv from 'dotenv';
+import { ResamaniaBooker, runAllProfiles } from './main.js';
+import { loadConfig, type Config } from './config.js';
+import { FileLock } from './lock.js';
+import { log } from './logger.js';
+import { ScheduleConfig, formatNextRuns, nextRuns, resolveSchedules, runScheduleOf } from './schedules.js';
+import { relativePath } from './utils.js';
 
 dotenv.config();
 
+// Single attempt over every profile when the scheduler starts
+const STARTUP_RUN: ScheduleConfig = { name: 'startup', cron: '', attempts: 1 };
+
 class BookingScheduler {
+  private config: Config;
+  private schedules: ScheduleConfig[];
+  private lock: FileLock;
+  private running: string | null = null;
+
   constructor() {
-    this.validateEnvironment();
+    this.config = this.validateEnvironment();
+    this.schedules = resolveSchedules(this.config);
+    this.lock = new FileLock(relativePath(this.config.scheduler?.lock_file ?? './data/scheduler.lock'));
   }
 
-  private validateEnvironment(): void {
-    if (!process.env.RESAMANIA_USERNAME || !process.env.RESAMANIA_PASSWORD) {
-      console.error('Error: RESAMANIA_USERNAME and RESAMANIA_PASSWORD must be set');
+  private validateEnvironment(): Config {
+    // Constructing a booker validates the config and checks the profile's credentials
+    try {
+      for (const profile of ResamaniaBooker.profileNames()) {
+        new ResamaniaBooker(undefined, profile);
+      }
+      return loadConfig();
+    } catch (error) {
+      log.error(`Error: ${error instanceof Error ? error.message : error}`);
       process.exit(1);
     }
   }
 
-  private async runBooking(retries: number, description: string): Promise<void> {
-    const timestamp = new Date().toISOString();
-    console.log('\n' + '='.repeat(70));
-    console.log(`[${timestamp}] ${description}`);
-    console.log(`Retries: ${retries}`);
-    console.log('='.repeat(70));
+  /**
+   * Run a schedule unless another run is still going
+   */
+  private async runSchedule(schedule: ScheduleConfig): Promise<void> {
+    if (this.running) {
+      log.info(`\n[${new Date().toISOString()}] Skipping "${schedule.name}" run: "${this.running}" run still in progress`);
+      return;
+    }
 
+    this.running = schedule.name;
     try {
-      // Import and run the booking logic
-      const { ResamaniaBooker } = await import('./main.js');
-      const booker = new ResamaniaBooker();
-      await booker.run(retries);
+      await this.runBooking(schedule);
+      if (schedule.auto_cancel) {
+        await this.runAutoCancel(schedule.profiles);
+      }
+    } finally {
+      this.running = null;
+    }
+  }
 
-      console.log(`\n[${new Date().toISOString()}] Scheduled run completed`);
+  private async runBooking(schedule: ScheduleConfig): Promise<void> {
+    const timestamp = new Date().toISOString();
+    log.rule(true);
+    log.info(`[${timestamp}] Scheduled run "${schedule.name}"`);
+    if (schedule.profiles) {
+      log.info(`Profiles: ${schedule.profiles.join(', ')}`);
+    }
+    if (schedule.targets) {
+      log.info(`Targets: ${schedule.targets.join(', ')}`);
+    }
+    log.rule();
+
+    try {
+      const results = await runAllProfiles(schedule.attempts, {
+        schedule: runScheduleOf(schedule),
+        snipe: schedule.snipe,
+        profiles: schedule.profiles,
+        targets: schedule.targets,
+      });
+      for (const result of results.filter(result => !result.success)) {
+        log.error(`Profile "${result.profile}" failed: ${result.error}`);
+      }
+
+      log.info(`\n[${new Date().toISOString()}] Scheduled run completed`);
     } catch (error) {
-      console.error(`\n[${new Date().toISOString()}] Error during scheduled run:`, error);
+      log.error(`\n[${new Date().toISOString()}] Error during scheduled run: ${error}`, { stack: error instanceof Error ? error.stack : undefined });
+    }
+  }
+
+  private async runAutoCancel(profiles?: string[]): Promise<void> {
+    for (const profile of profiles ?? ResamaniaBooker.profileNames()) {
+      try {
+        const booker = new ResamaniaBooker(undefined, profile);
+        const cancelled = await booker.autoCancel();
+        if (cancelled > 0) {
+          log.info(`\n[${new Date().toISOString()}] Auto-cancelled ${cancelled} booking(s) for profile "${profile}"`);
+        }
+      } catch (error) {
+        log.error(`\n[${new Date().toISOString()}] Error during auto-cancel for profile "${profile}": ${error}`, { profile, stack: error instanceof Error ? error.stack : undefined });
+      }
     }
   }
 
   start(): void {
-    console.log('='.repeat(70));
-    console.log('Resamania Booking Scheduler Started');
-    console.log('='.repeat(70));
-    console.log('Schedules:');
-    console.log('  1. Daily at 11:59 AM Paris time - 15 retries');
-    console.log('  2. Every hour at :30 - 1 retry');
-    console.log(`Started at: ${new Date().toISOString()}`);
-    console.log('='.repeat(70));
-
-    // Schedule 1: Daily at 11:59 AM Paris time with 15 retries
-    cron.schedule('59 11 * * *', async () => {
-      console.log('\n[CRON TRIGGER] Daily 11:59 AM Paris time run');
-      await this.runBooking(45, 'Daily high-retry booking at 11:59 AM Paris');
-    }, {
-      timezone: 'Europe/Paris'
-    });
-
-    // Schedule 2: Every hour at :30 with 1 retry
-    cron.schedule('30 * * * *', async () => {
-      console.log('\n[CRON TRIGGER] Hourly :30 run');
-      await this.runBooking(1, 'Hourly booking at :30');
-    });
-
-    console.log('\n✓ Scheduler is running and waiting for scheduled times...');
-    console.log('Next daily run: 11:59 AM Paris time (Europe/Paris)');
-    console.log('Next hourly run: Top of next hour + 30 minutes\n');
-
-    console.log('Running once with 1 retry to verify it works\n');
-
-    this.runBooking(1, 'Initial test run').then(() => {
-      console.log('Looking good\n');
-    });
+    if (!this.lock.acquire()) {
+      log.error(`Error: another scheduler is already running (pid ${this.lock.holder()?.pid})`);
+      process.exit(1);
+    }
+
+    log.rule();
+    log.info('Resamania Booking Scheduler Started');
+    log.rule();
+    log.info('Schedules:');
+    for (const [i, schedule] of this.schedules.entries()) {
+      const options = [
+        schedule.timezone,
+        schedule.attempts !== undefined ? `${schedule.attempts} attempts` : null,
+        schedule.snipe ? 'sniper mode when enabled' : null,
+        schedule.auto_cancel ? 'then auto-cancel check' : null,
+      ].filter(Boolean);
+      log.info(`  ${i + 1}. ${schedule.name}: "${schedule.cron}"${options.length > 0 ? ` - ${options.join(', ')}` : ''}`);
+    }
+    log.info(`Started at: ${new Date().toISOString()}`);
+    log.rule();
+
+    for (const schedule of this.schedules) {
+      cron.schedule(schedule.cron, async () => {
+        log.info(`\n[CRON TRIGGER] ${schedule.name} run`);
+        await this.runSchedule(schedule);
+      }, {
+        timezone: schedule.timezone
+      });
+    }
+
+    log.info('\n✓ Scheduler is running and waiting for scheduled times...');
+    log.info('Next runs:');
+    log.info(formatNextRuns(nextRuns(this.schedules, new Date(), 5), this.schedules) + '\n');
+
+    if (this.config.scheduler?.run_on_start ?? true) {
+      log.info('Running once with 1 attempt to verify it works\n');
+
+      this.runSchedule(STARTUP_RUN).then(() => {
+        log.info('Looking good\n');
+      });
+    }
+  }
+
+  stop(): void {
+    this.lock.release();
   }
 }
 
+// Start the scheduler
+const scheduler = new BookingScheduler();
+
 // Handle graceful shutdown
 process.on('SIGTERM', () => {
-  console.log('\n[SIGTERM] Shutting down gracefully...');
+  log.info('\n[SIGTERM] Shutting down gracefully...');
+  scheduler.stop();
   process.exit(0);
 });
 
 process.on('SIGINT', () => {
-  console.log('\n[SIGINT] Shutting down gracefully...');
+  log.info('\n[SIGINT] Shutting down gracefully...');
+  scheduler.stop();
   process.exit(0);
 });
 
-// Start the scheduler
-const scheduler = new BookingScheduler();
+process.on('exit', () => scheduler.stop());
+
 scheduler.start();
 
 // Keep the process alive
@@ -0,0 +1,115 @@
+/**
+ * Schedules - Cron schedules of the scheduler, declared in config.json
+ * Falls back to the historical daily 11:59 (Paris) burst and hourly :30 check
+ */
+
+import cron from 'node-cron';
+import { CronExpressionParser } from 'cron-parser';
+import type { Config, RunSchedule } from './config.js';
+
+export interface ScheduleConfig {
+  name: string;
+  cron: string;            // node-cron expression, e.g. "59 11 * * *"
+  timezone?: string;       // IANA zone, e.g. "Europe/Paris" (default: system zone)
+  mode?: RunSchedule;      // Run loop whose attempts the schedule uses: "manual", "daily" or "hourly" (default)
+  attempts?: number;       // Default: the run_loop attempts of the mode
+  snipe?: boolean;         // Use sniper mode for profiles that enable it
+  auto_cancel?: boolean;   // Run the auto-cancel check after booking
+  profiles?: string[];     // Profiles to run (default: all)
+  targets?: string[];      // Activities of the target classes to book (default: all)
+  enabled?: boolean;
+}
+
+export interface SchedulerConfig {
+  run_on_start?: boolean;  // Single-attempt run when the scheduler starts (default true)
+  lock_file?: string;      // Relative to the project root (default ./data/scheduler.lock)
+  schedules?: ScheduleConfig[];
+}
+
+export interface UpcomingRun {
+  schedule: string;
+  at: Date;
+}
+
+export const DEFAULT_SCHEDULES: ScheduleConfig[] = [
+  { name: 'daily', cron: '59 11 * * *', timezone: 'Europe/Paris', mode: 'daily', snipe: true },
+  { name: 'hourly', cron: '30 * * * *', mode: 'hourly', auto_cancel: true },
+];
+
+/**
+ * Enabled schedules of the config, or the default ones when none are declared
+ */
+export function resolveSchedules(config: Config): ScheduleConfig[] {
+  const schedules = config.scheduler?.schedules ?? DEFAULT_SCHEDULES;
+  return schedules.filter(schedule => schedule.enabled !== false);
+}
+
+/**
+ * Run loop whose configured attempts a schedule uses when it sets none
+ */
+export function runScheduleOf(schedule: ScheduleConfig): RunSchedule {
+  return schedule.mode ?? 'hourly';
+}
+
+/**
+ * Whether an IANA timezone name is known to the runtime
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a cron expression
+ * @returns an error message, or null when valid
+ */
+export function cronError(expression: string): string | null {
+  // node-cron runs the schedules, cron-parser previews them: both must accept the expression
+  if (!cron.validate(expression)) {
+    return `invalid cron expression "${expression}"`;
+  }
+  try {
+    CronExpressionParser.parse(expression);
+    return null;
+  } catch (error) {
+    return `invalid cron expression "${expression}": ${error instanceof Error ? error.message : error}`;
+  }
+}
+
+/**
+ * Next runs of the schedules, earliest first
+ * @param count - Number of runs to return across all schedules
+ */
+export function nextRuns(schedules: ScheduleConfig[], from: Date = new Date(), count: number = 10): UpcomingRun[] {
+  const runs: UpcomingRun[] = [];
+
+  for (const schedule of schedules) {
+    const interval = CronExpressionParser.parse(schedule.cron, { tz: schedule.timezone, currentDate: from });
+    for (let i = 0; i < count; i++) {
+      runs.push({ schedule: schedule.name, at: interval.next().toDate() });
+    }
+  }
+
+  return runs
+    .sort((a, b) => a.at.getTime() - b.at.getTime())
+    .slice(0, count);
+}
+
+/**
+ * Render upcoming runs, one per line, with the local time of each schedule's timezone
+ */
+export function formatNextRuns(runs: UpcomingRun[], schedules: ScheduleConfig[]): string {
+  if (runs.length === 0) {
+    return '(no upcoming runs)';
+  }
+
+  return runs.map(run => {
+    const timezone = schedules.find(schedule => schedule.name === run.schedule)?.timezone;
+    const local = run.at.toLocaleString('en-GB', { timeZone: timezone, dateStyle: 'medium', timeStyle: 'short' });
+    return `  ${run.at.toISOString()}  ${local}${timezone ? ` (${timezone})` : ''}  ${run.schedule}`;
+  }).join('\n');
+}
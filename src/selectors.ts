@@ -0,0 +1,134 @@
+/**
+ * Selectors - Registry of the member area selectors, each with ordered fallbacks
+ * The first selector is the one the site uses today; the others (roles, generic MUI classes)
+ * keep the booker working through markup changes, and using one is logged so changes get noticed
+ */
+
+import type { ElementHandle, Page } from 'playwright';
+import { type ButtonLabel, type Locale } from './locale.js';
+import { log } from './logger.js';
+
+export type SelectorName =
+  | 'activityCard'
+  | 'activityName'
+  | 'classTime'
+  | 'reservationCard'
+  | 'toast'
+  | 'dialog'
+  | 'nextPeriod'
+  | 'activitySearch';
+
+export const SELECTORS: Record<SelectorName, string[]> = {
+  activityCard: [
+    '.MuiGrid-root.MuiGrid-item.MuiGrid-grid-md-6.MuiGrid-grid-lg-3',
+    '.MuiGrid-item:has(h3):has(h5)',
+    '[role="listitem"]:has([role="heading"])',
+    '.MuiCard-root',
+  ],
+  activityName: ['h3', '[role="heading"][aria-level="3"]', '.MuiTypography-h3', '.MuiCardHeader-title'],
+  classTime: ['h5', '[role="heading"][aria-level="5"]', '.MuiTypography-h5', 'time'],
+  reservationCard: ['.MuiGrid-root.MuiGrid-item', '[role="listitem"]', '.MuiCard-root'],
+  toast: ['.MuiSnackbar-root', '.MuiAlert-root', '[role="alert"]', '[role="status"]'],
+  dialog: ['[role="dialog"]', '.MuiDialog-root', '[role="alertdialog"]'],
+  // Planning navigation to the following days (text labels come from the locale)
+  nextPeriod: [
+    'button[aria-label*="next" i]',
+    'button[aria-label*="suivant" i]',
+    'button:has([data-testid="ChevronRightIcon"])',
+    'button:has([data-testid="ArrowForwardIosIcon"])',
+    'button:has([data-testid="NavigateNextIcon"])',
+  ],
+  activitySearch: [
+    'input[type="search"]',
+    '[role="searchbox"]',
+    'input[placeholder*="activit" i]',
+    'input[placeholder*="search" i]',
+    'input[placeholder*="recherch" i]',
+  ],
+};
+
+type Root = Page | ElementHandle;
+
+// Fallbacks already reported, so each one is logged once per process
+const reportedFallbacks = new Set<string>();
+
+/**
+ * Button selectors for the labels of a locale: buttons first, then other elements with a button role
+ * @param scope - Selector prefix, e.g. a dialog
+ */
+export function buttonSelectors(locale: Locale, labels: ButtonLabel[], scope: string = ''): string[] {
+  const texts = labels.flatMap(label => locale.buttons[label]).map(text => JSON.stringify(text));
+  return [
+    ...texts.map(text => `${scope}button:has-text(${text})`),
+    ...texts.map(text => `${scope}[role="button"]:has-text(${text})`),
+  ];
+}
+
+function reportFallback(name: string, selector: string): void {
+  const key = `${name}|${selector}`;
+  if (reportedFallbacks.has(key)) return;
+  reportedFallbacks.add(key);
+  log.warn(`⚠ Selector "${name}" matched through fallback ${selector} - the member area markup may have changed`);
+}
+
+function candidatesOf(name: SelectorName | string[]): { label: string; selectors: string[] } {
+  return Array.isArray(name)
+    ? { label: name[0] ?? 'selector', selectors: name }
+    : { label: name, selectors: SELECTORS[name] };
+}
+
+/**
+ * First element matching a selector, trying its fallbacks in order
+ * @param name - Registry name, or an ordered list of selectors (e.g. from buttonSelectors)
+ */
+export async function queryFirst(root: Root, name: SelectorName | string[]): Promise<ElementHandle | null> {
+  const { label, selectors } = candidatesOf(name);
+  for (const [i, selector] of selectors.entries()) {
+    const handle = await root.$(selector);
+    if (handle) {
+      if (i > 0) reportFallback(label, selector);
+      return handle;
+    }
+  }
+  return null;
+}
+
+/**
+ * Elements matching the first fallback of a selector that matches anything
+ */
+export async function queryAll(root: Root, name: SelectorName | string[]): Promise<ElementHandle[]> {
+  const { label, selectors } = candidatesOf(name);
+  for (const [i, selector] of selectors.entries()) {
+    const handles = await root.$$(selector);
+    if (handles.length > 0) {
+      if (i > 0) reportFallback(label, selector);
+      return handles;
+    }
+  }
+  return [];
+}
+
+/**
+ * Wait until any fallback of a selector is attached to the page
+ * @returns the first element found, or null on timeout
+ */
+export async function waitForAny(page: Page, name: SelectorName | string[], timeout: number): Promise<ElementHandle | null> {
+  const { selectors } = candidatesOf(name);
+  const found = await page.waitForSelector(selectors.join(', '), { timeout }).catch(() => null);
+  return found ? (await queryFirst(page, name)) ?? found : null;
+}
+
+/**
+ * Number of elements each fallback of each registry selector matches on a page,
+ * saved with failure bundles to show which selectors stopped matching
+ */
+export async function selectorReport(page: Page): Promise<Record<SelectorName, Record<string, number>>> {
+  const report = {} as Record<SelectorName, Record<string, number>>;
+  for (const [name, selectors] of Object.entries(SELECTORS) as [SelectorName, string[]][]) {
+    report[name] = {};
+    for (const selector of selectors) {
+      report[name][selector] = await page.$$eval(selector, nodes => nodes.length).catch(() => -1);
+    }
+  }
+  return report;
+}
@@ -0,0 +1,476 @@
+/**
+ * Control API - Local HTTP server to drive bookings from n8n and other automation tools
+ * Requests are authenticated with a bearer token and run one at a time through a job queue,
+ * sharing a single browser; GET /calendar.ics serves the booking calendar for subscriptions.
+ * Watchers run beside the queue, one per profile, queueing each of their polls and keeping their
+ * recent events for polling
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import type { Browser } from 'playwright';
+import * as dotenv from 'dotenv';
+import { ResamaniaBooker, runAllProfiles, launchBrowser } from './main.js';
+import { loadConfig } from './config.js';
+import { resolveProfile } from './profiles.js';
+import { slotToJson } from './booker.js';
+import { renderProfileCalendar } from './calendar.js';
+import type { WatchEvent } from './watcher.js';
+import { log } from './logger.js';
+
+dotenv.config();
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface Job {
+  id: string;
+  kind: string;
+  status: JobStatus;
+  created_at: string;
+  started_at?: string;
+  finished_at?: string;
+  result?: unknown;
+  error?: string;
+}
+
+export interface ControlServerOptions {
+  token: string;
+  port?: number;  // default 3000
+  host?: string;  // default 127.0.0.1
+}
+
+// Watch event kept for GET /watch/events, numbered so clients can ask for the newer ones
+export interface PublishedWatchEvent extends WatchEvent {
+  id: number;
+}
+
+interface RunningWatch {
+  profile: string;
+  started_at: string;
+  controller: AbortController;
+  finished: Promise<void>;
+}
+
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_FINISHED_JOBS = 100;
+const MAX_WATCH_EVENTS = 500;
+
+/**
+ * Runs jobs one after the other, keeping the most recent ones for status queries
+ */
+export class JobQueue {
+  private jobs = new Map<string, Job>();
+  private tail: Promise<void> = Promise.resolve();
+
+  /**
+   * Queue a job
+   * @returns the job record and a promise settled when the job finishes
+   */
+  enqueue(kind: string, task: () => Promise<unknown>): { job: Job; finished: Promise<Job> } {
+    const job: Job = { id: randomUUID(), kind, status: 'queued', created_at: new Date().toISOString() };
+    this.jobs.set(job.id, job);
+
+    const finished = this.tail.then(async () => {
+      job.status = 'running';
+      job.started_at = new Date().toISOString();
+      try {
+        job.result = await task();
+        job.status = 'done';
+      } catch (error) {
+        job.error = error instanceof Error ? error.message : String(error);
+        job.status = 'failed';
+      }
+      job.finished_at = new Date().toISOString();
+      this.prune();
+      return job;
+    });
+    this.tail = finished.then(() => undefined);
+
+    return { job, finished };
+  }
+
+  /**
+   * Queue a task and wait for it, so it runs in turn with the other jobs
+   * @returns the task's result; rejects with its error
+   */
+  run<T>(kind: string, task: () => Promise<T>): Promise<T> {
+    let outcome!: Promise<T>;
+    const { finished } = this.enqueue(kind, () => (outcome = task()));
+    return finished.then(() => outcome);
+  }
+
+  get(id: string): Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  counts(): Record<JobStatus, number> {
+    const counts: Record<JobStatus, number> = { queued: 0, running: 0, done: 0, failed: 0 };
+    for (const job of this.jobs.values()) {
+      counts[job.status]++;
+    }
+    return counts;
+  }
+
+  private prune(): void {
+    const finished = [...this.jobs.values()].filter(job => job.status === 'done' || job.status === 'failed');
+    for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+      this.jobs.delete(job.id);
+    }
+  }
+}
+
+export class ControlServer {
+  private options: Required<ControlServerOptions>;
+  private queue = new JobQueue();
+  private browser: Browser | null = null;
+  private browserLaunch: Promise<Browser> | null = null;  // Launch in progress, shared by concurrent callers
+  private server: Server | null = null;
+  private startedAt = Date.now();
+  private watches = new Map<string, RunningWatch>();
+  private watchEvents: PublishedWatchEvent[] = [];
+  private nextWatchEventId = 1;
+
+  constructor(options: ControlServerOptions) {
+    this.options = { port: 3000, host: '127.0.0.1', ...options };
+  }
+
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        const status = error instanceof HttpError ? error.status : 500;
+        if (status === 500) {
+          log.error(`✗ ${req.method} ${req.url}: ${error}`);
+        }
+        sendJson(res, status, { error: error instanceof Error ? error.message : String(error) });
+      });
+    });
+
+    await new Promise<void>(resolve => this.server!.listen(this.options.port, this.options.host, resolve));
+    log.info(`✓ Control API listening on http://${this.options.host}:${this.options.port}`);
+  }
+
+  async stop(): Promise<void> {
+    for (const watch of this.watches.values()) {
+      watch.controller.abort();
+    }
+    await Promise.all([...this.watches.values()].map(watch => watch.finished));
+    await new Promise<void>(resolve => this.server ? this.server.close(() => resolve()) : resolve());
+    await this.browser?.close();
+    this.browser = null;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const route = `${req.method} ${url.pathname}`;
+
+    if (route === 'GET /health') {
+      sendJson(res, 200, {
+        status: 'ok',
+        uptime_seconds: Math.floor((Date.now() - this.startedAt) / 1000),
+        jobs: this.queue.counts(),
+        watching: [...this.watches.keys()],
+      });
+      return;
+    }
+
+    // Calendar apps cannot send headers: the feed also accepts the token as a query parameter
+    if (route === 'GET /calendar.ics') {
+      this.authenticate(req, url.searchParams.get('token') ?? undefined);
+      const calendar = renderProfileCalendar(loadConfig(), checkProfile(url.searchParams.get('profile') ?? undefined));
+      res.writeHead(200, { 'Content-Type': 'text/calendar; charset=utf-8' });
+      res.end(calendar.text);
+      return;
+    }
+
+    this.authenticate(req);
+
+    const jobMatch = url.pathname.match(/^\/jobs\/([\w-]+)$/);
+    if (req.method === 'GET' && jobMatch) {
+      const job = this.queue.get(jobMatch[1]);
+      if (!job) throw new HttpError(404, `Unknown job ${jobMatch[1]}`);
+      sendJson(res, 200, job);
+      return;
+    }
+
+    const profile = checkProfile(url.searchParams.get('profile') ?? undefined);
+
+    switch (route) {
+      case 'GET /slots':
+        return this.runJob(res, 'slots', false, async () => {
+          const slots = await (await this.booker(profile)).list();
+          return slots.map(slotToJson);
+        });
+
+      case 'GET /bookings':
+        return this.runJob(res, 'bookings', false, async () => {
+          const status = await (await this.booker(profile)).status();
+          if (!status) throw new Error('Login failed');
+          return status;
+        });
+
+      case 'POST /book': {
+        const body = await readJson(req);
+        const bookProfile = checkProfile(optionalString(body, 'profile')) ?? profile;
+        const options = {
+          dryRun: body.dry_run === true,
+          activity: optionalString(body, 'class'),
+          date: optionalString(body, 'date'),
+          time: optionalString(body, 'time'),
+        };
+        return this.runJob(res, 'book', body.async === true, async () => {
+          const outcome = await (await this.booker(bookProfile)).book(options);
+          if (!outcome) throw new Error('Login failed');
+          return { selected: outcome.selected.map(slotToJson), result: outcome.result };
+        });
+      }
+
+      case 'POST /cancel': {
+        const body = await readJson(req);
+        const activity = optionalString(body, 'class');
+        if (!activity) throw new HttpError(400, '"class" is required');
+        const cancelProfile = checkProfile(optionalString(body, 'profile')) ?? profile;
+        const date = optionalString(body, 'date');
+        const time = optionalString(body, 'time');
+        return this.runJob(res, 'cancel', body.async === true, async () => {
+          const booker = await this.booker(cancelProfile);
+          return { cancelled: await booker.cancel(activity, date, time) };
+        });
+      }
+
+      case 'POST /run': {
+        const body = await readJson(req);
+        const retries = body.retries;
+        if (retries !== undefined && (!Number.isInteger(retries) || (retries as number) < 1)) {
+          throw new HttpError(400, '"retries" must be a positive integer');
+        }
+        const runProfile = checkProfile(optionalString(body, 'profile')) ?? profile;
+        return this.runJob(res, 'run', body.async === true, async () => {
+          if (runProfile) {
+            return [await (await this.booker(runProfile)).run(retries as number | undefined)];
+          }
+          return runAllProfiles(retries as number | undefined, { browser: await this.sharedBrowser() });
+        });
+      }
+
+      case 'POST /watch': {
+        const body = await readJson(req);
+        const polls = body.polls;
+        if (polls !== undefined && (!Number.isInteger(polls) || (polls as number) < 1)) {
+          throw new HttpError(400, '"polls" must be a positive integer');
+        }
+        const watchProfile = checkProfile(optionalString(body, 'profile')) ?? profile;
+        sendJson(res, 202, await this.startWatch(watchProfile, polls as number | undefined));
+        return;
+      }
+
+      case 'DELETE /watch': {
+        const watch = this.watches.get(profileKey(profile));
+        if (!watch) throw new HttpError(404, `Not watching profile "${profileKey(profile)}"`);
+        watch.controller.abort();
+        await watch.finished;
+        sendJson(res, 200, { profile: watch.profile, stopped: true });
+        return;
+      }
+
+      case 'GET /watch/events': {
+        const since = Number(url.searchParams.get('since') ?? 0);
+        if (!Number.isInteger(since) || since < 0) {
+          throw new HttpError(400, '"since" must be an event id');
+        }
+        sendJson(res, 200, {
+          watching: [...this.watches.values()].map(({ profile, started_at }) => ({ profile, started_at })),
+          events: this.watchEvents.filter(event => event.id > since && (!profile || event.profile === profile)),
+        });
+        return;
+      }
+
+      default:
+        throw new HttpError(404, `No route for ${route}`);
+    }
+  }
+
+  /**
+   * Queue a job; answer with its result, or right away with its id when async
+   */
+  private async runJob(res: ServerResponse, kind: string, async: boolean, task: () => Promise<unknown>): Promise<void> {
+    const { job, finished } = this.queue.enqueue(kind, task);
+    if (async) {
+      sendJson(res, 202, job);
+      return;
+    }
+
+    const done = await finished;
+    sendJson(res, done.status === 'done' ? 200 : 500, done);
+  }
+
+  /**
+   * Start watching the planning of a profile, outside the job queue since a watch runs until stopped
+   * Each poll (listing, booking on changes, logging in again) goes through the queue as a job,
+   * so it never drives the site at the same time as a run or booking job
+   * @param polls - Stop after this many polls (default: the profile's watcher settings)
+   */
+  private async startWatch(profile: string | undefined, polls?: number): Promise<{ profile: string; started_at: string }> {
+    const key = profileKey(profile);
+    if (this.watches.has(key)) {
+      throw new HttpError(409, `Already watching profile "${key}"`);
+    }
+
+    const booker = await this.booker(profile);
+    const controller = new AbortController();
+    const watch: RunningWatch = {
+      profile: key,
+      started_at: new Date().toISOString(),
+      controller,
+      finished: Promise.resolve(),
+    };
+    watch.finished = booker.watch({
+      maxPolls: polls,
+      signal: controller.signal,
+      onEvent: event => this.publishWatchEvent(event),
+      exclusive: task => this.queue.run('watch-poll', task),
+    })
+      .then(result => log.info(`Watch of profile "${key}" ended${result.error ? `: ${result.error}` : ''}`))
+      .catch(error => log.error(`✗ Watch of profile "${key}" failed: ${error}`))
+      .finally(() => this.watches.delete(key));
+    this.watches.set(key, watch);
+
+    return { profile: watch.profile, started_at: watch.started_at };
+  }
+
+  private publishWatchEvent(event: WatchEvent): void {
+    this.watchEvents.push({ id: this.nextWatchEventId++, ...event });
+    if (this.watchEvents.length > MAX_WATCH_EVENTS) {
+      this.watchEvents.shift();
+    }
+  }
+
+  /**
+   * @param queryToken - Token given in the URL, for routes that accept one
+   */
+  private authenticate(req: IncomingMessage, queryToken?: string): void {
+    const header = req.headers.authorization ?? '';
+    const given = Buffer.from(queryToken ?? header.replace(/^Bearer\s+/i, ''));
+    const expected = Buffer.from(this.options.token);
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      throw new HttpError(401, 'Invalid or missing bearer token');
+    }
+  }
+
+  /**
+   * Booker for a profile, running in the shared browser (launched on first use)
+   */
+  private async booker(profile?: string): Promise<ResamaniaBooker> {
+    const booker = new ResamaniaBooker(undefined, profile);
+    booker.useBrowser(await this.sharedBrowser());
+    return booker;
+  }
+
+  /**
+   * Browser shared by every job and watch, launched on first use and again if it disconnected
+   */
+  private async sharedBrowser(): Promise<Browser> {
+    if (this.browser?.isConnected()) {
+      return this.browser;
+    }
+    this.browserLaunch ??= launchBrowser(loadConfig().booking_settings)
+      .then(browser => (this.browser = browser))
+      .finally(() => (this.browserLaunch = null));
+    return this.browserLaunch;
+  }
+}
+
+/**
+ * Reject unknown profiles before queueing a job
+ */
+function checkProfile(profile?: string): string | undefined {
+  if (profile && !ResamaniaBooker.profileNames().includes(profile)) {
+    throw new HttpError(400, `Unknown profile "${profile}" (available: ${ResamaniaBooker.profileNames().join(', ')})`);
+  }
+  return profile;
+}
+
+/**
+ * Name of the profile a request runs as: the given one, else the default profile
+ */
+function profileKey(profile?: string): string {
+  return resolveProfile(loadConfig(), profile).name;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body, null, 2));
+}
+
+async function readJson(req: IncomingMessage): Promise<Record<string, unknown>> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf-8').trim();
+  if (!text) return {};
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+function optionalString(body: Record<string, unknown>, key: string): string | undefined {
+  const value = body[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') throw new HttpError(400, `"${key}" must be a string`);
+  return value;
+}
+
+// Server entry point
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const token = process.env.CONTROL_API_TOKEN;
+  if (!token) {
+    log.error('Error: CONTROL_API_TOKEN must be set in environment');
+    process.exit(1);
+  }
+
+  // Fail fast on an invalid config
+  try {
+    loadConfig();
+  } catch (error) {
+    log.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  const server = new ControlServer({
+    token,
+    port: Number(process.env.CONTROL_API_PORT || 3000),
+    host: process.env.CONTROL_API_HOST || '127.0.0.1',
+  });
+
+  const shutdown = (signal: string) => {
+    log.info(`\n[${signal}] Shutting down gracefully...`);
+    server.stop().finally(() => process.exit(0));
+  };
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+
+  server.start().catch(error => {
+    log.error(`Fatal error: ${error}`);
+    process.exit(1);
+  });
+}
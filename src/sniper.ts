@@ -0,0 +1,143 @@
+/**
+ * Sniper - Books target classes at the exact second their booking window opens
+ * A class opens for booking `max_days_from_now` days before it starts; the clock is synced to the server's Date header
+ */
+
+import { setTimeout as sleep } from 'timers/promises';
+import type { TargetClass } from './booker.js';
+import { targetOccurrences } from './reservations.js';
+import { log } from './logger.js';
+import { getClock, type Clock } from './clock.js';
+
+export interface SniperSettings {
+  enabled?: boolean;           // Use sniper mode for the daily scheduled run
+  horizon_minutes?: number;    // Only snipe windows opening within this many minutes (default 10)
+  retry_interval_ms?: number;  // Delay between booking attempts once the window is open (default 200)
+  max_attempts?: number;       // Booking attempts per class before giving up (default 25)
+}
+
+export interface BookingWindow {
+  target: TargetClass;
+  at: Date;       // Class start
+  opensAt: Date;  // First instant the class can be booked
+}
+
+export interface SnipeOutcome {
+  activity: string;
+  at: string;       // ISO class start
+  opensAt: string;  // ISO window opening
+  booked: boolean;
+  attempts: number;
+  latencyMs?: number;  // From window opening to booking confirmation (server clock)
+  error?: string;
+}
+
+export const SNIPER_DEFAULTS = {
+  horizon_minutes: 10,
+  retry_interval_ms: 200,
+  max_attempts: 25,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SPIN_THRESHOLD_MS = 20;
+const SYNC_TIMEOUT_MS = 5000;
+
+/**
+ * Instant a class opens for booking
+ * @param at - Class start
+ * @param maxDaysFromNow - How many days ahead the club lets members book
+ */
+export function bookingWindowOpensAt(at: Date, maxDaysFromNow: number): Date {
+  return new Date(at.getTime() - maxDaysFromNow * DAY_MS);
+}
+
+/**
+ * Booking windows of enabled target classes opening between now and now + horizon, earliest first
+ */
+export function upcomingBookingWindows(
+  targets: TargetClass[],
+  maxDaysFromNow: number,
+  now: Date,
+  horizonMinutes: number
+): BookingWindow[] {
+  const from = new Date(now.getTime() + maxDaysFromNow * DAY_MS);
+  const to = new Date(from.getTime() + horizonMinutes * 60 * 1000);
+
+  const windows: BookingWindow[] = [];
+  for (const target of targets.filter(target => target.enabled)) {
+    for (const at of targetOccurrences(target, from, to)) {
+      windows.push({ target, at, opensAt: bookingWindowOpensAt(at, maxDaysFromNow) });
+    }
+  }
+
+  return windows.sort((a, b) => a.opensAt.getTime() - b.opensAt.getTime());
+}
+
+/**
+ * Local clock corrected by the offset to the server clock
+ * The local clock is the injectable one of clock.ts, so the booking windows computed from now()
+ * and the wait until they open run on the same timeline
+ */
+export class ServerClock {
+  constructor(readonly offsetMs: number = 0, private clock: Clock = getClock()) {}
+
+  /**
+   * Estimate the server clock offset from the Date header of a few HEAD requests.
+   * The header has a one-second resolution, so samples are spread over a second and
+   * the offset intervals they allow are intersected.
+   */
+  static async sync(url: string, samples: number = 10, clock: Clock = getClock()): Promise<ServerClock> {
+    let lower = -Infinity;
+    let upper = Infinity;
+    let lastEstimate: number | null = null;
+
+    for (let i = 0; i < samples; i++) {
+      try {
+        const sentAt = clock.now().getTime();
+        const response = await fetch(url, { method: 'HEAD', signal: AbortSignal.timeout(SYNC_TIMEOUT_MS) });
+        const receivedAt = clock.now().getTime();
+
+        const serverDate = Date.parse(response.headers.get('date') ?? '');
+        if (!Number.isNaN(serverDate)) {
+          // The server read its clock somewhere in [sentAt, receivedAt], within [serverDate, serverDate + 1s)
+          lower = Math.max(lower, serverDate - receivedAt);
+          upper = Math.min(upper, serverDate + 1000 - sentAt);
+          lastEstimate = serverDate + 500 - (sentAt + receivedAt) / 2;
+        }
+      } catch (error) {
+        log.warn(`⚠ Clock sync request failed: ${error}`);
+      }
+
+      await sleep(1000 / samples + 7);
+    }
+
+    if (lastEstimate === null) {
+      log.warn('⚠ Could not read the server clock - using the local clock');
+      return new ServerClock(0, clock);
+    }
+
+    // Inconsistent samples (e.g. network jitter): fall back to the last estimate
+    const offsetMs = lower <= upper ? Math.round((lower + upper) / 2) : Math.round(lastEstimate);
+    const precision = lower <= upper ? `±${Math.ceil((upper - lower) / 2)}ms` : 'low precision';
+    log.info(`✓ Server clock offset: ${offsetMs}ms (${precision})`);
+    return new ServerClock(offsetMs, clock);
+  }
+
+  now(): Date {
+    return new Date(this.clock.now().getTime() + this.offsetMs);
+  }
+
+  /**
+   * Resolve at the given server-clock instant: sleeps most of the way, then spins for precision
+   */
+  async waitUntil(instant: Date): Promise<void> {
+    let remaining = instant.getTime() - this.now().getTime();
+    while (remaining > SPIN_THRESHOLD_MS) {
+      await sleep(remaining - SPIN_THRESHOLD_MS);
+      remaining = instant.getTime() - this.now().getTime();
+    }
+    while (this.now().getTime() < instant.getTime()) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  }
+}
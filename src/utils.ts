@@ -2,51 +2,42 @@
  * Date and time utility functions for Resamania
  */
 
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { LOCALES, parseCardDate, parseWeekday, type LocaleCode } from './locale.js';
+import { getClock, type Clock } from './clock.js';
+
+/**
+ * Resolve a path relative to the project root (the parent of src/ or dist/)
+ */
+export const relativePath = (path: string) => {
+  const __filename = fileURLToPath(import.meta.url);
+  const __dirname = dirname(__filename);
+  return join(__dirname, '..', path);
+}
+
 /**
  * Converts a date string and time string to a Date object
- * @param dateStr - Format: "Monday 2 December" or similar
- * @param timeStr - Format: "19:30"
+ * @param dateStr - Format: "Monday 2 December", "lundi 2 décembre" or similar
+ * @param timeStr - Format: "19:30" or "19h30"
+ * @param locale - Language of dateStr (default: any supported language)
+ * @param clock - Source of the current time, deciding the year
  * @returns Date object representing the slot time
  */
-export function parseSlotDateTime(dateStr: string, timeStr: string): Date {
-  // dateStr example: "Monday 2 December"
-  // timeStr example: "19:30"
-
-  const [_weekdayStr, dayStr, monthStr] = dateStr.split(" ");
-
-  // Month mapping
-  const months: Record<string, number> = {
-    january: 0,
-    february: 1,
-    march: 2,
-    april: 3,
-    may: 4,
-    june: 5,
-    july: 6,
-    august: 7,
-    september: 8,
-    october: 9,
-    november: 10,
-    december: 11,
-  };
-
-  const month = months[monthStr.toLowerCase()];
-  if (month === undefined) {
-    throw new Error(`Invalid month: ${monthStr}`);
-  }
-
-  const day = Number(dayStr);
-  if (Number.isNaN(day)) {
-    throw new Error(`Invalid day: ${dayStr}`);
+export function parseSlotDateTime(dateStr: string, timeStr: string, locale?: LocaleCode, clock: Clock = getClock()): Date {
+  const date = parseCardDate(dateStr, locale);
+  if (!date) {
+    throw new Error(`Invalid date: ${dateStr}`);
   }
+  const { day, month } = date;
 
   // Parse time
-  const [hour, minute] = timeStr.split(":").map(Number);
-  if (Number.isNaN(hour) || Number.isNaN(minute)) {
+  const [hour, minute] = normalizeTime(timeStr).split(":").map(Number);
+  if (Number.isNaN(hour) || Number.isNaN(minute) || minute === undefined) {
     throw new Error(`Invalid time: ${timeStr}`);
   }
 
-  const now = new Date();
+  const now = clock.now();
   const currentYear = now.getFullYear();
 
   // Build the target date for this year
@@ -62,56 +53,39 @@ export function parseSlotDateTime(dateStr: string, timeStr: string): Date {
 
 /**
  * Extracts date text from card text using pattern matching
- * Looks for patterns like "Monday 2 December"
+ * Looks for patterns like "Monday 2 December" or "lundi 2 décembre"
  * @param cardText - Full text content of the card
- * @returns Date string (e.g., "Monday 2 December") or "Unknown"
+ * @param locale - Language of the card (default: any supported language)
+ * @returns Date string in English (e.g., "Monday 2 December") or "Unknown"
  */
-export function extractDateFromCardText(cardText: string): string {
-  // Pattern: Day name followed by day number and month name
-  // Example: "Monday 2 December"
-  const days = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
-  const months = ['January', 'February', 'March', 'April', 'May', 'June',
-                  'July', 'August', 'September', 'October', 'November', 'December'];
-
-  // Build a regex pattern that matches: DayName Number MonthName
-  const dayPattern = days.join('|');
-  const monthPattern = months.join('|');
-  const datePattern = new RegExp(`(${dayPattern})\\s+(\\d{1,2})\\s+(${monthPattern})`, 'i');
-
-  const match = cardText.match(datePattern);
-  if (match) {
-    // Return the matched date string (group 0 is the full match)
-    return match[0];
+export function extractDateFromCardText(cardText: string, locale?: LocaleCode): string {
+  const date = parseCardDate(cardText, locale);
+  if (!date) {
+    return 'Unknown';
   }
 
-  return 'Unknown';
+  return `${WEEKDAY_NAMES[date.weekday]} ${date.day} ${MONTH_NAMES[date.month]}`;
 }
 
 /**
  * Extracts day of week from card text
  * @param cardText - Full text content of the card
- * @returns Day of week string (e.g., "Monday") or "Unknown"
+ * @param locale - Language of the card (default: any supported language)
+ * @returns Day of week string in English (e.g., "Monday") or "Unknown"
  */
-export function extractDayOfWeekFromCardText(cardText: string): string {
-  const days = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
-
-  // Look for day name followed by digits (date pattern)
-  for (const day of days) {
-    const pattern = new RegExp(`${day}\\s+\\d{1,2}`, 'i');
-    if (pattern.test(cardText)) {
-      return day;
-    }
-  }
-
-  // Fallback: simple substring match
-  const cardTextLower = cardText.toLowerCase();
-  for (const day of days) {
-    if (cardTextLower.includes(day.toLowerCase())) {
-      return day;
-    }
-  }
+export function extractDayOfWeekFromCardText(cardText: string, locale?: LocaleCode): string {
+  const weekday = parseWeekday(cardText, locale);
+  return weekday === null ? 'Unknown' : WEEKDAY_NAMES[weekday];
+}
 
-  return 'Unknown';
+/**
+ * Normalizes a card time to "HH:MM" ("9h30", "09 h 30" or "09:30 - 10:15" give "09:30")
+ * @param timeStr - Time text of a card
+ * @returns The normalized time, or the trimmed text when it holds no time
+ */
+export function normalizeTime(timeStr: string): string {
+  const match = timeStr.match(/(\d{1,2})\s*[:hH]\s*(\d{2})/);
+  return match ? `${match[1].padStart(2, '0')}:${match[2]}` : timeStr.trim();
 }
 
 /**
@@ -119,18 +93,20 @@ export function extractDayOfWeekFromCardText(cardText: string): string {
  * @param slotDate - The date to check
  * @param minHours - Minimum hours from now (default: 6)
  * @param maxDays - Maximum days from now (default: 4)
+ * @param clock - Source of the current time
  * @returns true if date meets constraints
  */
 export function meetsTimeConstraints(
   slotDate: Date | null,
   minHours: number = 6,
-  maxDays: number = 4
+  maxDays: number = 4,
+  clock: Clock = getClock()
 ): boolean {
   if (!slotDate) {
     return false;
   }
 
-  const now = new Date();
+  const now = clock.now();
   const minTime = new Date(now.getTime() + minHours * 60 * 60 * 1000);
   const maxTime = new Date(now.getTime() + maxDays * 24 * 60 * 60 * 1000);
 
@@ -140,19 +116,86 @@ export function meetsTimeConstraints(
 /**
  * Calculate hours from now until a given date
  * @param date - The target date
+ * @param clock - Source of the current time
  * @returns Number of hours from now (can be negative if in the past)
  */
-export function hoursFromNow(date: Date): number {
-  const now = new Date();
+export function hoursFromNow(date: Date, clock: Clock = getClock()): number {
+  const now = clock.now();
   return (date.getTime() - now.getTime()) / (1000 * 60 * 60);
 }
 
 /**
  * Calculate days from now until a given date
  * @param date - The target date
+ * @param clock - Source of the current time
  * @returns Number of days from now (can be negative if in the past)
  */
-export function daysFromNow(date: Date): number {
-  const now = new Date();
+export function daysFromNow(date: Date, clock: Clock = getClock()): number {
+  const now = clock.now();
   return (date.getTime() - now.getTime()) / (1000 * 60 * 60 * 24);
 }
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June',
+                     'July', 'August', 'September', 'October', 'November', 'December'];
+
+/**
+ * Formats a date the way the planning cards display it
+ * @param date - The date to format
+ * @returns Date string (e.g., "Monday 2 December")
+ */
+export function formatSlotDate(date: Date): string {
+  return `${WEEKDAY_NAMES[date.getDay()]} ${date.getDate()} ${MONTH_NAMES[date.getMonth()]}`;
+}
+
+/**
+ * Formats the time of a date the way the planning cards display it
+ * @param date - The date to format
+ * @returns Time string (e.g., "09:15")
+ */
+export function formatSlotTime(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+/**
+ * Get the English weekday name of a date
+ * @param date - The date
+ * @returns Day of week string (e.g., "Monday")
+ */
+export function dayOfWeek(date: Date): string {
+  return WEEKDAY_NAMES[date.getDay()];
+}
+
+/**
+ * Extracts the waiting list position from card or toast text
+ * Looks for patterns like "Position 3", "3rd on the waiting list" or "3e sur la liste d'attente"
+ * @param text - Card or toast text
+ * @param locale - Language of the text (default: any supported language)
+ * @returns Position number or null if not shown
+ */
+export function extractWaitlistPosition(text: string, locale?: LocaleCode): number | null {
+  const patterns = (locale ? [LOCALES[locale]] : Object.values(LOCALES)).flatMap(candidate => candidate.waitlistPosition);
+
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) {
+      return Number(match[1]);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check whether two time ranges overlap
+ * @param startA - Start of the first range
+ * @param minutesA - Length of the first range in minutes
+ * @param startB - Start of the second range
+ * @param minutesB - Length of the second range in minutes
+ * @returns true if the ranges overlap
+ */
+export function overlaps(startA: Date, minutesA: number, startB: Date, minutesB: number): boolean {
+  const endA = startA.getTime() + minutesA * 60 * 1000;
+  const endB = startB.getTime() + minutesB * 60 * 1000;
+  return startA.getTime() < endB && startB.getTime() < endA;
+}
@@ -0,0 +1,161 @@
+/**
+ * Watcher - Detects planning changes between successive listings of one long-lived session
+ * Each poll's slots are diffed with the previous poll of the same club into events: a place
+ * freed in a full class, a class added or cancelled by the club, few places left in a class
+ */
+
+import { slotToJson, type SlotBookingDetail, type SlotInfo } from './booker.js';
+import { slotKey } from './history.js';
+
+export interface WatcherSettings {
+  interval_seconds?: number;  // Delay between polls (default 60)
+  jitter_seconds?: number;    // Each delay is randomly shortened or lengthened by up to this much (default 15)
+  low_places?: number;        // Report classes whose remaining places drop below this (default 3)
+  targets_only?: boolean;     // Only watch the clubs and classes of the target classes (default true)
+  auto_book?: boolean;        // Book matching target classes as soon as a place is freed or they are added (default true)
+  max_polls?: number;         // Stop after this many polls, 0 to watch until stopped (default 0)
+}
+
+export const WATCHER_DEFAULTS: Required<WatcherSettings> = {
+  interval_seconds: 60,
+  jitter_seconds: 15,
+  low_places: 3,
+  targets_only: true,
+  auto_book: true,
+  max_polls: 0,
+};
+
+export type WatchEventKind = 'place_freed' | 'class_added' | 'class_cancelled' | 'places_low';
+
+/**
+ * Difference between two listings for one slot
+ */
+export interface SlotChange {
+  kind: WatchEventKind;
+  slot: SlotInfo;        // Current slot (last known one for a cancelled class)
+  previous?: SlotInfo;   // Slot of the previous listing, when it was listed
+}
+
+/**
+ * Change as reported to the CLI, the control API and event handlers
+ */
+export interface WatchEvent {
+  kind: WatchEventKind;
+  detected_at: string;
+  profile: string;
+  club?: string;
+  reason: string;
+  previous_status?: string;
+  slot: ReturnType<typeof slotToJson>;
+  booking?: SlotBookingDetail;  // Immediate booking triggered by the event
+}
+
+// Shortest delay between two polls, whatever the jitter
+const MIN_DELAY_MS = 1000;
+
+/**
+ * Whether a slot has no place left
+ */
+function isFull(slot: SlotInfo): boolean {
+  return slot.status === 'Full' || slot.remaining_places === 0;
+}
+
+/**
+ * Changes between two listings of the same club
+ * Classes are only reported added before the last class of the previous listing, and cancelled
+ * before the end of the booking window, so the window moving forward or classes starting are
+ * not taken for planning changes
+ * @param lowPlaces - Report classes whose remaining places drop below this
+ * @param at - Time of the current listing
+ * @param until - End of the booking window the current listing covers
+ */
+export function diffSnapshots(previous: SlotInfo[], current: SlotInfo[], lowPlaces: number, at: Date, until: Date): SlotChange[] {
+  const previousByKey = new Map(previous.map(slot => [slotKey(slot), slot]));
+  const currentKeys = new Set(current.map(slotKey));
+  const previousEnd = Math.max(...previous.map(slot => slot.at.getTime()));
+
+  const changes: SlotChange[] = [];
+  for (const slot of current) {
+    const before = previousByKey.get(slotKey(slot));
+    if (!before) {
+      if (slot.at.getTime() <= previousEnd && slot.at > at) {
+        changes.push({ kind: 'class_added', slot });
+      }
+      continue;
+    }
+
+    if (isFull(before) && !isFull(slot) && slot.is_available) {
+      changes.push({ kind: 'place_freed', slot, previous: before });
+    } else if (
+      slot.remaining_places !== undefined && slot.remaining_places > 0 && slot.remaining_places < lowPlaces &&
+      before.remaining_places !== undefined && before.remaining_places >= lowPlaces
+    ) {
+      changes.push({ kind: 'places_low', slot, previous: before });
+    }
+  }
+
+  for (const [key, slot] of previousByKey) {
+    if (!currentKeys.has(key) && slot.at > at && slot.at <= until) {
+      changes.push({ kind: 'class_cancelled', slot, previous: slot });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Short explanation of a change, used as notification reason
+ */
+export function describeChange(change: SlotChange): string {
+  const { slot, previous } = change;
+  switch (change.kind) {
+    case 'place_freed':
+      return `${previous?.status ?? 'Full'} → ${slot.status}`;
+    case 'class_added':
+      return `Added to the planning (${slot.status})`;
+    case 'class_cancelled':
+      return 'No longer on the planning';
+    case 'places_low': {
+      const places = `${slot.remaining_places} place${slot.remaining_places === 1 ? '' : 's'} left`;
+      return slot.capacity !== undefined ? `${places} of ${slot.capacity}` : places;
+    }
+  }
+}
+
+/**
+ * Delay before the next poll: the interval plus or minus a random jitter,
+ * so polls do not hit the site at a fixed cadence
+ * @param random - Random source in [0, 1)
+ */
+export function pollDelayMs(settings: WatcherSettings = {}, random: () => number = Math.random): number {
+  const { interval_seconds, jitter_seconds } = { ...WATCHER_DEFAULTS, ...settings };
+  const jitter = (random() * 2 - 1) * jitter_seconds;
+  return Math.max(MIN_DELAY_MS, Math.round((interval_seconds + jitter) * 1000));
+}
+
+/**
+ * Keeps the last listing of each club and reports what changed since
+ */
+export class SlotWatcher {
+  private snapshots = new Map<string, SlotInfo[]>();
+
+  constructor(private lowPlaces: number = WATCHER_DEFAULTS.low_places) {}
+
+  /**
+   * Replace the snapshot of a club with a new listing
+   * The first listing of a club only sets the baseline; an empty listing after a non-empty one
+   * is taken for a failed read and ignored, so it does not report every class as cancelled
+   * @param at - Time of the listing
+   * @param until - End of the booking window the listing covers
+   * @returns the changes since the previous listing of the club
+   */
+  update(club: string, slots: SlotInfo[], at: Date, until: Date): SlotChange[] {
+    const previous = this.snapshots.get(club);
+    if (previous && previous.length > 0 && slots.length === 0) {
+      return [];
+    }
+
+    this.snapshots.set(club, slots);
+    return previous && previous.length > 0 ? diffSnapshots(previous, slots, this.lowPlaces, at, until) : [];
+  }
+}
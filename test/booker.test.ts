@@ -0,0 +1,108 @@
+/**
+ * Target class matching of the slot booker, against a fixed clock
+ */
+
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FixedClock, setClock } from '../src/clock.js';
+import { ResamaniaSlotBooker, type SlotInfo, type TargetClass } from '../src/booker.js';
+import { BookingHistory } from '../src/history.js';
+import type { Reservation } from '../src/reservations.js';
+import { dayOfWeek, formatSlotDate, formatSlotTime } from '../src/utils.js';
+
+// Tuesday 1 December 2026, 10:00 local time
+const NOW = new Date(2026, 11, 1, 10, 0);
+
+const RPM: TargetClass = { day: 'Thursday', time: '12:30', activity: 'RPM', duration_minutes: 45, enabled: true };
+
+function slot(activity: string, at: Date, fields: Partial<SlotInfo> = {}): SlotInfo {
+  return {
+    activity_name: activity,
+    date: formatSlotDate(at),
+    time: formatSlotTime(at),
+    at,
+    day_of_week: dayOfWeek(at),
+    status: 'Available',
+    is_available: true,
+    card_element: null,
+    ...fields,
+  };
+}
+
+function matching(targets: TargetClass[], slots: SlotInfo[]): string[] {
+  const booker = new ResamaniaSlotBooker(targets, { minHoursFromNow: 6, maxDaysFromNow: 4 });
+  return booker.filterMatchingSlots({ allSlots: slots }).map(match => `${match.activity_name} ${match.date} ${match.time}`);
+}
+
+before(() => {
+  process.env.LOG_LEVEL = 'error';
+  setClock(new FixedClock(NOW));
+});
+
+const dir = mkdtempSync(join(tmpdir(), 'booker-'));
+
+after(() => {
+  setClock();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+test('matches the activity, day and time of a target class', () => {
+  assert.deepEqual(matching([RPM], [
+    slot('RPM', new Date(2026, 11, 3, 12, 30)),
+    slot('Body Pump', new Date(2026, 11, 3, 12, 30)),
+    slot('RPM', new Date(2026, 11, 3, 18, 0)),
+    slot('RPM', new Date(2026, 11, 2, 12, 30)),
+  ]), ['RPM Thursday 3 December 12:30']);
+});
+
+test('matches activity names case-insensitively as a substring by default', () => {
+  assert.deepEqual(matching([RPM], [slot('Les Mills rpm', new Date(2026, 11, 3, 12, 30))]),
+    ['Les Mills rpm Thursday 3 December 12:30']);
+});
+
+test('ignores disabled targets', () => {
+  assert.deepEqual(matching([{ ...RPM, enabled: false }], [slot('RPM', new Date(2026, 11, 3, 12, 30))]), []);
+});
+
+test('only matches the coach of a target when the slot has one', () => {
+  const target = { ...RPM, coach: 'Marie' };
+  const at = new Date(2026, 11, 3, 12, 30);
+
+  assert.deepEqual(matching([target], [slot('RPM', at, { coach: 'Paul Martin' })]), []);
+  assert.deepEqual(matching([target], [slot('RPM', at, { coach: 'Marie Dupont' })]), ['RPM Thursday 3 December 12:30']);
+  assert.deepEqual(matching([target], [slot('RPM', at)]), ['RPM Thursday 3 December 12:30']);
+});
+
+test('drops matching slots outside the booking window of the clock', () => {
+  const sameDay = { ...RPM, day: 'Tuesday' };
+  const nextWeek = new Date(2026, 11, 8, 12, 30);
+
+  assert.deepEqual(matching([sameDay], [slot('RPM', new Date(2026, 11, 1, 12, 30))]), []);
+  assert.deepEqual(matching([sameDay], [slot('RPM', nextWeek)]), []);
+
+  setClock(new FixedClock(new Date(2026, 11, 5, 10, 0)));
+  try {
+    assert.deepEqual(matching([sameDay], [slot('RPM', nextWeek)]), ['RPM Tuesday 8 December 12:30']);
+  } finally {
+    setClock(new FixedClock(NOW));
+  }
+});
+
+test('skips a class booked in a previous run only while it is still reserved', () => {
+  const thursday = slot('RPM', new Date(2026, 11, 3, 12, 30));
+  const history = new BookingHistory(join(dir, 'history.jsonl'));
+  history.recordAttempt(thursday, 'booked');
+  const booker = new ResamaniaSlotBooker([RPM], { minHoursFromNow: 6, maxDaysFromNow: 4 }, { history });
+  const held: Reservation = { ...thursday, status: 'booked', source: 'api' };
+
+  assert.equal(booker.filterMatchingSlots({ allSlots: [thursday] }).length, 0);
+
+  booker.setReservations([held]);
+  assert.equal(booker.filterMatchingSlots({ allSlots: [thursday] }).length, 0);
+
+  booker.setReservations([]);
+  assert.equal(booker.filterMatchingSlots({ allSlots: [thursday] }).length, 1);
+});
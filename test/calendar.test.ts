@@ -0,0 +1,43 @@
+/**
+ * Booking calendar read from the history journal
+ */
+
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadConfig } from '../src/config.js';
+import { BookingHistory } from '../src/history.js';
+import { renderProfileCalendar } from '../src/calendar.js';
+import { dayOfWeek, formatSlotDate, formatSlotTime } from '../src/utils.js';
+
+const dir = mkdtempSync(join(tmpdir(), 'calendar-'));
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+test('renderProfileCalendar reads the history without credentials', () => {
+  process.env.DATABASE_PATH = join(dir, 'history.jsonl');
+  delete process.env.RESAMANIA_USERNAME;
+  delete process.env.RESAMANIA_PASSWORD;
+
+  const at = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  at.setHours(12, 30, 0, 0);
+  new BookingHistory(process.env.DATABASE_PATH).recordAttempt({
+    activity_name: 'RPM',
+    date: formatSlotDate(at),
+    time: formatSlotTime(at),
+    at,
+    day_of_week: dayOfWeek(at),
+    status: 'Signed up',
+    is_available: false,
+    card_element: null,
+  }, 'booked');
+
+  const calendar = renderProfileCalendar(loadConfig());
+  assert.equal(calendar.events, 1);
+  assert.match(calendar.text, /SUMMARY:RPM/);
+  assert.match(calendar.text, /STATUS:CONFIRMED/);
+});
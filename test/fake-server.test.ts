@@ -0,0 +1,161 @@
+/**
+ * Listing and booking against the fake Resamania server, at a fixed time
+ * The planning page tests need Chromium (npx playwright install chromium) and are skipped without it
+ */
+
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync } from 'fs';
+import { chromium, type Page } from 'playwright';
+import { FixedClock, setClock } from '../src/clock.js';
+import { FakeResamaniaServer } from '../src/fake-server.js';
+import { ResamaniaApiClient } from '../src/api.js';
+import { ResamaniaSlotBooker, type TargetClass } from '../src/booker.js';
+
+// Tuesday 1 December 2026, 10:00 local time
+const NOW = new Date(2026, 11, 1, 10, 0);
+const BRAND = 'fitnesstraining';
+const CLUB_ID = `/${BRAND}/clubs/528`;
+
+const TARGETS: TargetClass[] = [
+  { day: 'Wednesday', time: '12:30', activity: 'RPM', duration_minutes: 45, enabled: true },
+  { day: 'Thursday', time: '18:00', activity: 'Yoga', duration_minutes: 60, enabled: true },
+];
+
+const SCENARIO = {
+  days: 5,
+  classes: [
+    { activity: 'RPM', day: 'Wednesday', time: '12:30', attending: 19 },
+    { activity: 'Yoga', day: 'Thursday', time: '18:00', attending: 20, coach: 'Marie Dupont', room: 'Studio 2' },
+    { activity: 'CAF', day: 'Friday', time: '09:15', booked: true },
+    { activity: 'Pilates', day: 'Friday', time: '19:00', attending: 20, waiting: 2, waitlisted: true },
+  ],
+};
+
+const browserAvailable = existsSync(chromium.executablePath());
+
+let server: FakeResamaniaServer;
+
+async function apiToken(): Promise<string> {
+  const response = await fetch(`${server.url}/oauth/login/${BRAND}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: 'username=member&password=secret',
+  });
+  const auth = (await response.text()).match(/setItem\('auth', ("(?:[^"\\]|\\.)*")\)/);
+  assert.ok(auth, 'login page stores the OAuth token');
+  return JSON.parse(JSON.parse(auth[1])).access_token;
+}
+
+function slotBooker(api: ResamaniaApiClient | null = null): ResamaniaSlotBooker {
+  return new ResamaniaSlotBooker(TARGETS, { minHoursFromNow: 6, maxDaysFromNow: 4, locale: 'en' }, { api });
+}
+
+before(async () => {
+  process.env.LOG_LEVEL = 'error';
+  const clock = new FixedClock(NOW);
+  setClock(clock);
+  server = new FakeResamaniaServer(SCENARIO, { port: 4761, clock });
+  await server.start();
+});
+
+after(async () => {
+  await server.stop();
+  setClock();
+});
+
+describe('through the API', () => {
+  let booker: ResamaniaSlotBooker;
+
+  before(async () => {
+    server.reset();
+    booker = slotBooker(new ResamaniaApiClient({ apiUrl: server.url, clubId: CLUB_ID }, await apiToken()));
+  });
+
+  test('listSlotsFromApi lists the classes of the booking window with their places', async () => {
+    const slots = await booker.listSlotsFromApi();
+    const byActivity = new Map(slots.map(slot => [slot.activity_name, slot]));
+
+    assert.deepEqual(slots.map(slot => `${slot.activity_name} ${slot.date} ${slot.time}`), [
+      'RPM Wednesday 2 December 12:30',
+      'Yoga Thursday 3 December 18:00',
+      'CAF Friday 4 December 09:15',
+      'Pilates Friday 4 December 19:00',
+    ]);
+    assert.equal(byActivity.get('RPM')!.status, '1 remaining places');
+    assert.equal(byActivity.get('RPM')!.remaining_places, 1);
+    assert.equal(byActivity.get('Yoga')!.status, 'Full');
+    assert.equal(byActivity.get('Yoga')!.is_available, false);
+    assert.equal(byActivity.get('Yoga')!.room, 'Studio 2');
+    assert.equal(byActivity.get('CAF')!.status, 'Signed up');
+    assert.equal(byActivity.get('Pilates')!.status, 'On waiting list');
+    assert.equal(byActivity.get('Pilates')!.is_available, false);
+    assert.ok(byActivity.get('Pilates')!.attendee_id, 'waiting list entry keeps its attendee record');
+  });
+
+  test('bookSlots books the matching class and verifies it, skipping the full one', async () => {
+    const matching = booker.filterMatchingSlots({ allSlots: await booker.listSlotsFromApi() });
+    assert.deepEqual(matching.map(slot => slot.activity_name), ['RPM', 'Yoga']);
+
+    // API bookings do not touch the page
+    const result = await booker.bookSlots({} as Page, matching);
+    assert.equal(result.bookedCount, 1);
+    assert.deepEqual(result.slots.map(detail => [detail.activity, detail.outcome, detail.result]), [
+      ['RPM', 'booked', 'booked'],
+      ['Yoga', 'skipped', 'full'],
+    ]);
+    assert.equal(result.slots[0].verified_by, 'api');
+
+    const rpm = (await booker.listSlotsFromApi()).find(slot => slot.activity_name === 'RPM')!;
+    assert.equal(rpm.status, 'Signed up');
+  });
+
+  test('bookAtOpening retries a full class and stops at an already booked one', async () => {
+    const slots = new Map((await booker.listSlotsFromApi()).map(slot => [slot.activity_name, slot]));
+
+    assert.deepEqual(await booker.bookAtOpening(slots.get('Yoga')!, 3, 0), { booked: false, attempts: 3, result: 'full' });
+    assert.deepEqual(await booker.bookAtOpening(slots.get('CAF')!, 3, 0), { booked: true, attempts: 1, result: 'already_booked' });
+  });
+});
+
+describe('through the planning page', { skip: !browserAvailable && 'Chromium is not installed' }, () => {
+  let browser: Awaited<ReturnType<typeof chromium.launch>>;
+  let page: Page;
+
+  before(async () => {
+    server.reset();
+    browser = await chromium.launch();
+    const context = await browser.newContext();
+    await context.request.post(`${server.url}/oauth/login/${BRAND}`, {
+      form: { username: 'member', password: 'secret' },
+    });
+    page = await context.newPage();
+    await page.goto(`${server.url}/${BRAND}/planning`, { waitUntil: 'networkidle' });
+  });
+
+  after(async () => {
+    await browser?.close();
+  });
+
+  test('listSlots reads the planning cards', async () => {
+    const slots = await slotBooker().listSlots(page);
+
+    assert.deepEqual(slots.map(slot => `${slot.activity_name} ${slot.date} ${slot.time} ${slot.status}`), [
+      'RPM Wednesday 2 December 12:30 1 remaining places',
+      'Yoga Thursday 3 December 18:00 Full',
+      'CAF Friday 4 December 09:15 Signed up',
+      'Pilates Friday 4 December 19:00 On waiting list',
+    ]);
+    assert.equal(slots[1].coach, 'Marie Dupont');
+    assert.equal(slots[1].room, 'Studio 2');
+  });
+
+  test('bookSlots clicks "Book" and reads the card back', async () => {
+    const booker = slotBooker();
+    const matching = booker.filterMatchingSlots({ allSlots: await booker.listSlots(page) });
+
+    const result = await booker.bookSlots(page, matching.filter(slot => slot.activity_name === 'RPM'));
+    assert.equal(result.bookedCount, 1);
+    assert.equal(result.slots[0].verified_by, 'card');
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Booking toasts, API messages and planning cards read in English and French
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LOCALES, bookingRefusal, cardDetails, cardStatus, toastRefusal } from '../src/locale.js';
+
+test('toastRefusal does not take a success mentioning credits for a refusal', () => {
+  assert.equal(toastRefusal('Booking confirmed, 1 credit used', LOCALES.en), null);
+  assert.equal(toastRefusal('Réservation confirmée, 1 crédit utilisé', LOCALES.fr), null);
+});
+
+test('toastRefusal reads "already booked" although it sounds like a success', () => {
+  assert.equal(toastRefusal('You are already booked on this class', LOCALES.en), 'already_booked');
+  assert.equal(toastRefusal('Vous êtes déjà inscrit à ce cours', LOCALES.fr), 'already_booked');
+});
+
+test('bookingRefusal reads credit refusals only from refusal phrases', () => {
+  assert.equal(bookingRefusal('Insufficient credits', LOCALES.en), 'credit_insufficient');
+  assert.equal(bookingRefusal('You do not have enough credits', LOCALES.en), 'credit_insufficient');
+  assert.equal(bookingRefusal('Crédits insuffisants', LOCALES.fr), 'credit_insufficient');
+  assert.equal(bookingRefusal('1 credit used', LOCALES.en), null);
+});
+
+test('bookingRefusal falls back to the other locale', () => {
+  assert.equal(bookingRefusal('Cours complet', LOCALES.en), 'full');
+  assert.equal(bookingRefusal('Booking limit reached', LOCALES.fr), 'quota_exceeded');
+});
+
+test('cardDetails reads the whole room label, with or without a "Room:" prefix', () => {
+  assert.equal(cardDetails('RPM\nStudio A\n12:30', LOCALES.en).room, 'Studio A');
+  assert.equal(cardDetails('RPM\nRoom: Studio 2\n12:30', LOCALES.en).room, 'Studio 2');
+  assert.equal(cardDetails('RPM\nSalle 2\n12h30', LOCALES.fr).room, 'Salle 2');
+  assert.equal(cardDetails('RPM\nSalle : Cardio\n12h30', LOCALES.fr).room, 'Cardio');
+});
+
+test('cardStatus reads the member as signed up only from their own status', () => {
+  assert.equal(cardStatus('RPM\nInscrit\n12h30', LOCALES.fr), 'Signed up');
+  assert.equal(cardStatus('RPM\nVous êtes inscrit(e)\n12h30', LOCALES.fr), 'Signed up');
+  assert.equal(cardStatus('RPM\n12h30\n1/20 inscrit', LOCALES.fr), 'Available');
+  assert.equal(cardStatus('RPM\n12h30\n12 inscrits\n8 places restantes', LOCALES.fr), '8 remaining places');
+  assert.equal(cardStatus("RPM\nVous êtes inscrit en liste d'attente", LOCALES.fr), 'On waiting list');
+});
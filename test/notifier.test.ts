@@ -0,0 +1,209 @@
+/**
+ * Notification dispatch and dedupe, against a fixed clock
+ * Webhook, Telegram and email channels send to local HTTP and SMTP stand-ins
+ */
+
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'http';
+import { createServer as createNetServer, type AddressInfo, type Server as NetServer } from 'net';
+import { FixedClock, setClock } from '../src/clock.js';
+import {
+  NotificationDispatcher,
+  TelegramChannel,
+  WebhookChannel,
+  formatNotification,
+  type Notification,
+  type NotificationChannel,
+} from '../src/notifier.js';
+
+// Tuesday 1 December 2026, 10:00 local time
+const NOW = new Date(2026, 11, 1, 10, 0);
+const MINUTE_MS = 60 * 1000;
+
+const clock = new FixedClock(NOW);
+
+/**
+ * Channel keeping what it was asked to send
+ */
+class RecordingChannel implements NotificationChannel {
+  readonly name = 'recording';
+  sent: Notification[] = [];
+
+  async send(notification: Notification): Promise<void> {
+    this.sent.push(notification);
+  }
+}
+
+const PLACE_FREED: Notification = {
+  event: 'place_freed',
+  activity: 'RPM',
+  date: 'Thursday 3 December',
+  time: '12:30',
+  status: '1 remaining places',
+  reason: 'Full → 1 remaining places',
+};
+
+before(() => {
+  process.env.LOG_LEVEL = 'error';
+  setClock(clock);
+});
+
+after(() => {
+  setClock();
+});
+
+test('notify sends an identical notification once while retrying', async () => {
+  const channel = new RecordingChannel();
+  const dispatcher = new NotificationDispatcher({}, [channel]);
+
+  await dispatcher.notify(PLACE_FREED);
+  clock.advance(MINUTE_MS);
+  await dispatcher.notify(PLACE_FREED);
+
+  assert.equal(channel.sent.length, 1);
+});
+
+test('notify sends a watch event seen again later', async () => {
+  const channel = new RecordingChannel();
+  const dispatcher = new NotificationDispatcher({}, [channel]);
+
+  await dispatcher.notify(PLACE_FREED);
+  clock.advance(2 * 60 * MINUTE_MS);
+  await dispatcher.notify(PLACE_FREED);
+
+  assert.equal(channel.sent.length, 2);
+});
+
+test('notify skips events turned off in the settings', async () => {
+  const channel = new RecordingChannel();
+  const dispatcher = new NotificationDispatcher({ notify_on_watch: false }, [channel]);
+
+  await dispatcher.notify(PLACE_FREED);
+
+  assert.deepEqual(channel.sent, []);
+});
+
+/**
+ * Local HTTP stand-in recording the JSON bodies POSTed to it
+ * @param status - Status code of every answer
+ */
+async function startReceiver(status: number = 200): Promise<{ url: string; bodies: Record<string, unknown>[]; server: Server }> {
+  const bodies: Record<string, unknown>[] = [];
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      bodies.push({ path: req.url, ...JSON.parse(body) });
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end('{}');
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, bodies, server };
+}
+
+/**
+ * Local SMTP stand-in keeping the DATA of each message
+ */
+async function startSmtp(): Promise<{ port: number; messages: string[]; server: NetServer }> {
+  const messages: string[] = [];
+  const server = createNetServer(socket => {
+    let data: string | null = null;
+    let buffer = '';
+    socket.write('220 localhost ESMTP\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk;
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        if (data !== null) {
+          if (line === '.') {
+            messages.push(data);
+            data = null;
+            socket.write('250 Queued\r\n');
+          } else {
+            data += line + '\n';
+          }
+        } else if (/^(EHLO|HELO)/i.test(line)) {
+          socket.write('250 localhost\r\n');
+        } else if (/^DATA/i.test(line)) {
+          data = '';
+          socket.write('354 End with .\r\n');
+        } else if (/^QUIT/i.test(line)) {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { port: (server.address() as AddressInfo).port, messages, server };
+}
+
+const SUCCESS: Notification = {
+  event: 'success',
+  activity: 'RPM',
+  date: 'Thursday 3 December',
+  time: '12:30',
+  status: 'Signed up',
+};
+
+test('WebhookChannel POSTs the notification with its rendered text', async () => {
+  const receiver = await startReceiver();
+  try {
+    await new NotificationDispatcher({}, [new WebhookChannel(`${receiver.url}/hook`)]).notify(SUCCESS);
+
+    assert.equal(receiver.bodies.length, 1);
+    assert.deepEqual(receiver.bodies[0], { path: '/hook', ...SUCCESS, text: formatNotification(SUCCESS) });
+  } finally {
+    receiver.server.close();
+  }
+});
+
+test('a failing channel is logged and does not stop the others', async () => {
+  const failing = await startReceiver(500);
+  const working = await startReceiver();
+  try {
+    const dispatcher = new NotificationDispatcher({}, [
+      new WebhookChannel(failing.url),
+      new TelegramChannel('token', '42', working.url),
+    ]);
+    await dispatcher.notify(SUCCESS);
+
+    assert.equal(failing.bodies.length, 1);
+    assert.deepEqual(working.bodies, [{ path: '/bottoken/sendMessage', chat_id: '42', text: formatNotification(SUCCESS) }]);
+  } finally {
+    failing.server.close();
+    working.server.close();
+  }
+});
+
+test('fromEnvironment sends to the webhook and email set in the environment', async () => {
+  const receiver = await startReceiver();
+  const smtp = await startSmtp();
+  const env = { ...process.env };
+  try {
+    process.env.NOTIFY_WEBHOOK_URL = receiver.url;
+    process.env.NOTIFY_SMTP_HOST = '127.0.0.1';
+    process.env.NOTIFY_SMTP_PORT = String(smtp.port);
+    process.env.NOTIFY_EMAIL_TO = 'member@example.com';
+    process.env.NOTIFY_EMAIL_FROM = 'booker@example.com';
+    delete process.env.NOTIFY_TELEGRAM_BOT_TOKEN;
+
+    const dispatcher = NotificationDispatcher.fromEnvironment();
+    assert.ok(dispatcher.hasChannels());
+    await dispatcher.notify({ ...SUCCESS, activity: 'Body Pump' });
+
+    assert.equal(receiver.bodies.length, 1);
+    assert.equal(smtp.messages.length, 1);
+    assert.match(smtp.messages[0], /Subject: \[Resamania\] ✅ Booked: Body Pump Thursday 3 December 12:30|Subject: =\?UTF-8\?/);
+    assert.match(smtp.messages[0], /To: member@example\.com/);
+  } finally {
+    process.env = env;
+    receiver.server.close();
+    smtp.server.close();
+  }
+});
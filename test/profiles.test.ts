@@ -0,0 +1,31 @@
+/**
+ * Profile settings merged over the top-level config
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Config } from '../src/config.js';
+import { resolveProfile } from '../src/profiles.js';
+
+const CONFIG: Config = {
+  resamania: { brand: 'fitnesstraining' },
+  target_classes: [],
+  booking_settings: {
+    headless: true,
+    slow_mo: 100,
+    run_loop: { attempts: 15, interval_seconds: 2 },
+    policy: { max_per_week: 3, allow_overlap: false },
+  },
+  profiles: [
+    { name: 'alice', booking_settings: { slow_mo: 0, run_loop: { attempts: 5 }, policy: { max_per_day: 1 } } },
+  ],
+};
+
+test('resolveProfile merges nested booking settings key by key', () => {
+  const settings = resolveProfile(CONFIG, 'alice').config.booking_settings;
+
+  assert.equal(settings.headless, true);
+  assert.equal(settings.slow_mo, 0);
+  assert.deepEqual(settings.run_loop, { attempts: 5, interval_seconds: 2 });
+  assert.deepEqual(settings.policy, { max_per_week: 3, allow_overlap: false, max_per_day: 1 });
+});
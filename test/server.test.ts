@@ -0,0 +1,42 @@
+/**
+ * Job queue of the control API
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JobQueue } from '../src/server.js';
+
+test('run() waits for the jobs queued before it and returns its result', async () => {
+  const queue = new JobQueue();
+  const order: string[] = [];
+  let release!: () => void;
+
+  queue.enqueue('run', () => new Promise<void>(resolve => {
+    release = () => {
+      order.push('run');
+      resolve();
+    };
+  }));
+  const polled = queue.run('watch-poll', async () => {
+    order.push('watch-poll');
+    return 2;
+  });
+
+  await new Promise(resolve => setImmediate(resolve));
+  assert.deepEqual(order, []);
+  release();
+
+  assert.equal(await polled, 2);
+  assert.deepEqual(order, ['run', 'watch-poll']);
+  assert.deepEqual(queue.counts(), { queued: 0, running: 0, done: 2, failed: 0 });
+});
+
+test('run() rejects with the error of its task and the queue goes on', async () => {
+  const queue = new JobQueue();
+
+  await assert.rejects(queue.run('watch-poll', async () => {
+    throw new Error('Listing failed');
+  }), /Listing failed/);
+  assert.equal(await queue.run('book', async () => 'next'), 'next');
+  assert.deepEqual(queue.counts(), { queued: 0, running: 0, done: 1, failed: 1 });
+});
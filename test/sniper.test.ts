@@ -0,0 +1,45 @@
+/**
+ * Booking windows and the server clock of the sniper
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FixedClock, OffsetClock } from '../src/clock.js';
+import { FakeResamaniaServer } from '../src/fake-server.js';
+import { ServerClock, bookingWindowOpensAt } from '../src/sniper.js';
+
+// Tuesday 1 December 2026, 10:00 local time
+const NOW = new Date(2026, 11, 1, 10, 0);
+
+test('bookingWindowOpensAt opens max days from now before the class', () => {
+  assert.deepEqual(bookingWindowOpensAt(new Date(2026, 11, 5, 12, 30), 4), new Date(2026, 11, 1, 12, 30));
+});
+
+test('ServerClock reads the injected clock, shifted by the server offset', () => {
+  const clock = new FixedClock(NOW);
+  const server = new ServerClock(1500, clock);
+
+  assert.deepEqual(server.now(), new Date(NOW.getTime() + 1500));
+  clock.advance(60 * 1000);
+  assert.deepEqual(server.now(), new Date(NOW.getTime() + 61500));
+});
+
+test('ServerClock waits until an instant of the injected timeline', async () => {
+  const server = new ServerClock(0, new OffsetClock(NOW));
+  const opensAt = new Date(NOW.getTime() + 50);
+
+  await server.waitUntil(opensAt);
+  assert.ok(server.now() >= opensAt);
+});
+
+test('ServerClock.sync reads the offset of the fake server clock from its Date header', async () => {
+  process.env.LOG_LEVEL = 'error';
+  const server = new FakeResamaniaServer({}, { port: 4762, clock: new OffsetClock(new Date(NOW.getTime() + 90 * 1000)) });
+  await server.start();
+  try {
+    const clock = await ServerClock.sync(server.url, 4, new OffsetClock(NOW));
+    assert.ok(Math.abs(clock.offsetMs - 90 * 1000) <= 1000, `offset ${clock.offsetMs}ms`);
+  } finally {
+    await server.stop();
+  }
+});
@@ -0,0 +1,52 @@
+/**
+ * Date parsing and booking window checks, against a fixed clock
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FixedClock } from '../src/clock.js';
+import { meetsTimeConstraints, parseSlotDateTime } from '../src/utils.js';
+
+// Tuesday 1 December 2026, 10:00 local time
+const clock = new FixedClock(new Date(2026, 11, 1, 10, 0));
+const HOUR_MS = 60 * 60 * 1000;
+
+test('parseSlotDateTime reads English card dates in the current year', () => {
+  assert.deepEqual(parseSlotDateTime('Thursday 3 December', '12:30', 'en', clock), new Date(2026, 11, 3, 12, 30));
+});
+
+test('parseSlotDateTime reads French card dates and "12h30" times', () => {
+  assert.deepEqual(parseSlotDateTime('jeudi 3 décembre', '12h30', 'fr', clock), new Date(2026, 11, 3, 12, 30));
+  assert.deepEqual(parseSlotDateTime('jeudi 3 décembre', '12h30', undefined, clock), new Date(2026, 11, 3, 12, 30));
+});
+
+test('parseSlotDateTime moves dates already past to next year', () => {
+  assert.deepEqual(parseSlotDateTime('Monday 4 January', '09:15', 'en', clock), new Date(2027, 0, 4, 9, 15));
+  assert.deepEqual(parseSlotDateTime('Tuesday 1 December', '09:00', 'en', clock), new Date(2027, 11, 1, 9, 0));
+});
+
+test('parseSlotDateTime rejects unreadable dates and times', () => {
+  assert.throws(() => parseSlotDateTime('Someday', '12:30', 'en', clock), /Invalid date/);
+  assert.throws(() => parseSlotDateTime('Thursday 3 December', 'noon', 'en', clock), /Invalid time/);
+});
+
+test('meetsTimeConstraints keeps slots between min hours and max days from now', () => {
+  const at = (hours: number) => new Date(clock.now().getTime() + hours * HOUR_MS);
+
+  assert.equal(meetsTimeConstraints(at(5), 6, 4, clock), false);
+  assert.equal(meetsTimeConstraints(at(6), 6, 4, clock), true);
+  assert.equal(meetsTimeConstraints(at(4 * 24), 6, 4, clock), true);
+  assert.equal(meetsTimeConstraints(at(4 * 24 + 1), 6, 4, clock), false);
+  assert.equal(meetsTimeConstraints(null, 6, 4, clock), false);
+});
+
+test('meetsTimeConstraints follows the clock', () => {
+  const slot = new Date(2026, 11, 3, 12, 30);
+  const moving = new FixedClock(new Date(2026, 11, 1, 10, 0));
+
+  assert.equal(meetsTimeConstraints(slot, 6, 1, moving), false);
+  moving.advance(27 * HOUR_MS);
+  assert.equal(meetsTimeConstraints(slot, 6, 1, moving), true);
+  moving.advance(20 * HOUR_MS);
+  assert.equal(meetsTimeConstraints(slot, 6, 1, moving), false);
+});